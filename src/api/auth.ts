@@ -2,15 +2,16 @@ import axios, { AxiosError } from 'axios';
 import { Cache } from '../utils/cache.js';
 import { logger } from '../utils/logger.js';
 import { efecteConfig, getApiUrl } from '../utils/config.js';
-import { ApiResponse, ApiException } from '../types/efecte.js';
+import { ApiResponse, ApiException, InstanceProfile } from '../types/efecte.js';
+import { AuthError, fromAxiosError, withContext } from '../utils/errors.js';
 
 export class AuthManager {
   private tokenCache: Cache<string>;
   private tokenExpiresAt: number = 0;
   private authPromise: Promise<string> | null = null; // Prevent concurrent auth requests
 
-  constructor() {
-    this.tokenCache = new Cache<string>('auth-token');
+  constructor(private readonly profile: InstanceProfile) {
+    this.tokenCache = new Cache<string>('auth-token', { memoryOnly: true, instance: profile.name });
   }
 
   async getToken(): Promise<string> {
@@ -27,7 +28,7 @@ export class AuthManager {
       return await this.authPromise;
     }
 
-    logger.info('Fetching new authentication token');
+    logger.info(`Fetching new authentication token for instance ${this.profile.name}`);
     this.authPromise = this.authenticate().finally(() => {
       // Clear the promise when done (success or failure)
       this.authPromise = null;
@@ -41,24 +42,24 @@ export class AuthManager {
     
     try {
       const formData = new URLSearchParams();
-      formData.append('login', efecteConfig.username);
-      formData.append('password', efecteConfig.password);
+      formData.append('login', this.profile.username);
+      formData.append('password', this.profile.password);
 
       const response = await axios.post<ApiResponse>(
-        getApiUrl('users/login'),
+        getApiUrl('users/login', this.profile),
         formData,
         {
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
-          timeout: efecteConfig.timeout,
+          timeout: this.profile.timeout,
         }
       );
 
       const token = response.data.token || response.headers['authorization'];
       
       if (!token) {
-        throw new Error('No token received from authentication endpoint');
+        throw new AuthError('No token received from authentication endpoint');
       }
 
       const bearerToken = token.startsWith('Bearer ') ? token : `Bearer ${token}`;
@@ -76,9 +77,9 @@ export class AuthManager {
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError<ApiException>;
         if (axiosError.response?.status === 401) {
-          throw new Error('Invalid credentials');
+          throw new AuthError('Invalid credentials', { status: 401, cause: error });
         }
-        throw new Error(`Authentication failed: ${axiosError.message}`);
+        throw withContext(fromAxiosError(axiosError), 'Authentication failed');
       }
       
       throw error;
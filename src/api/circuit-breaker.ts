@@ -0,0 +1,135 @@
+import { logger } from '../utils/logger.js';
+import { UpstreamError } from '../utils/errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastFailure?: string;
+}
+
+/**
+ * Error thrown instead of sending a request while the circuit is open
+ */
+export class CircuitOpenError extends UpstreamError {
+  readonly retryAt: Date;
+
+  constructor(retryAt: Date, lastFailure?: string) {
+    const seconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+    super(
+      `Efecte backend unavailable, retry after ${retryAt.toISOString()} (in ${seconds}s).` +
+      (lastFailure ? ` Last failure: ${lastFailure}` : ''),
+      { code: 'ECIRCUITOPEN', details: { retryAt: retryAt.toISOString() } }
+    );
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Circuit breaker for the Efecte backend
+ * - closed: requests pass; consecutive failures are counted
+ * - open: after failureThreshold consecutive failures, requests fail immediately for openDuration
+ * - half-open: after openDuration, one probe request decides whether to close or open again;
+ *   requests arriving meanwhile wait for the probe
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastFailure?: string;
+  private probePromise: Promise<boolean> | null = null;
+
+  /**
+   * @param failureThreshold - Consecutive failures that open the circuit, 0 disables the breaker
+   * @param openDuration - Time in ms before a probe is sent
+   * @param probe - Lightweight request that resolves when the backend is reachable
+   */
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly openDuration: number,
+    private readonly probe: () => Promise<unknown>
+  ) {}
+
+  /**
+   * Wait until a request may be sent, or throw CircuitOpenError
+   */
+  async beforeRequest(): Promise<void> {
+    if (this.failureThreshold === 0 || this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'open' && Date.now() < this.openedAt + this.openDuration) {
+      throw new CircuitOpenError(new Date(this.openedAt + this.openDuration), this.lastFailure);
+    }
+
+    if (!this.probePromise) {
+      this.state = 'half-open';
+      logger.info('Circuit breaker half-open, probing Efecte backend');
+      this.probePromise = this.probe()
+        .then(() => {
+          this.recordSuccess();
+          return true;
+        })
+        .catch((error: unknown) => {
+          this.open(error instanceof Error ? error.message : 'Probe failed');
+          return false;
+        })
+        .finally(() => {
+          this.probePromise = null;
+        });
+    }
+
+    if (!(await this.probePromise)) {
+      throw new CircuitOpenError(new Date(this.openedAt + this.openDuration), this.lastFailure);
+    }
+  }
+
+  /**
+   * Record that the backend answered
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed, Efecte backend reachable again');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Record that the backend did not answer or answered with a server error
+   */
+  recordFailure(reason: string): void {
+    if (this.failureThreshold === 0) {
+      return;
+    }
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    if (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold) {
+      this.open(reason);
+    }
+  }
+
+  private open(reason: string): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.lastFailure = reason;
+    logger.warn(`Circuit breaker open after ${this.consecutiveFailures} consecutive failures, failing fast for ${this.openDuration}ms`, { reason });
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      ...(this.state !== 'closed' && {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.openDuration).toISOString(),
+      }),
+      ...(this.lastFailure && { lastFailure: this.lastFailure }),
+    };
+  }
+}
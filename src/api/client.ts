@@ -2,18 +2,61 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import FormData from 'form-data';
 import { AuthManager } from './auth.js';
 import { logger } from '../utils/logger.js';
-import { efecteConfig, getApiUrl } from '../utils/config.js';
-import { ApiException } from '../types/efecte.js';
+import { efecteConfig, getApiUrl, getInstanceProfile } from '../utils/config.js';
+import { ApiException, InstanceProfile } from '../types/efecte.js';
+import { getRetryDelay } from './retry.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { Semaphore, TokenBucket } from './throttle.js';
+import { EfecteError, copyError, fromAxiosError } from '../utils/errors.js';
+
+/**
+ * Key identifying a GET by URL and query parameters (in any order)
+ */
+function requestKey(url: string, params: unknown): string {
+  if (!params || typeof params !== 'object') {
+    return url;
+  }
+  const sorted = Object.keys(params).sort().map(key => [key, (params as Record<string, unknown>)[key]]);
+  return `${url}?${JSON.stringify(sorted)}`;
+}
+
+/**
+ * Copy of an error that was retried, with the number of attempts
+ */
+function withAttempts(error: EfecteError, attempts: number): EfecteError {
+  if (attempts <= 1) {
+    return error;
+  }
+  const retried = copyError(error, `${error.message} (after ${attempts} attempts)`);
+  retried.attempts = attempts;
+  return retried;
+}
 
 export class EfecteApiClient {
   private client: AxiosInstance;
   private authManager: AuthManager;
+  private circuitBreaker: CircuitBreaker;
+  private rateLimiter: TokenBucket;
+  private concurrency: Semaphore;
+  // GETs in flight by URL and params, shared by identical concurrent reads
+  private inFlightGets: Map<string, Promise<unknown>> = new Map();
+  private getRequests = 0;
+  private coalescedGets = 0;
 
-  constructor() {
-    this.authManager = new AuthManager();
+  constructor(readonly profile: InstanceProfile) {
+    this.authManager = new AuthManager(profile);
+    // The probe bypasses the interceptors, so it is neither blocked by the breaker nor retried
+    this.circuitBreaker = new CircuitBreaker(
+      efecteConfig.circuitBreaker.failureThreshold,
+      efecteConfig.circuitBreaker.openDuration,
+      () => axios.get(getApiUrl('echo', profile), { timeout: profile.timeout })
+    );
     
+    this.rateLimiter = new TokenBucket(efecteConfig.throttle.requestsPerSecond, efecteConfig.throttle.burst);
+    this.concurrency = new Semaphore(efecteConfig.throttle.maxConcurrent);
+
     this.client = axios.create({
-      timeout: efecteConfig.timeout,
+      timeout: profile.timeout,
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
@@ -26,14 +69,30 @@ export class EfecteApiClient {
   private setupInterceptors(): void {
     this.client.interceptors.request.use(
       async (config) => {
+        // Fail fast while the backend is known to be down
+        await this.circuitBreaker.beforeRequest();
+
+        // Every attempt (including retries) takes a token and holds a slot until its response arrives
+        await this.rateLimiter.take();
+        config.releaseSlot = await this.concurrency.acquire();
+
         if (config.url && !config.url.includes('/users/login') && !config.url.includes('/echo')) {
-          const token = await this.authManager.getToken();
-          config.headers['Authorization'] = token;
+          try {
+            const token = await this.authManager.getToken();
+            config.headers['Authorization'] = token;
+          } catch (error) {
+            config.releaseSlot();
+            throw error;
+          }
         }
         
+        if (config.idempotencyKey) {
+          config.headers['Idempotency-Key'] = config.idempotencyKey;
+        }
+
         // Ensure timeout is set (use config timeout or default)
         if (!config.timeout) {
-          config.timeout = efecteConfig.timeout;
+          config.timeout = this.profile.timeout;
         }
         
         logger.debug(`API Request: ${config.method?.toUpperCase()} ${config.url}`, {
@@ -49,45 +108,48 @@ export class EfecteApiClient {
 
     this.client.interceptors.response.use(
       (response) => {
+        response.config.releaseSlot?.();
+        this.circuitBreaker.recordSuccess();
         logger.debug(`API Response: ${response.status} ${response.config.url}`);
         return response;
       },
       async (error: AxiosError<ApiException>) => {
+        error.config?.releaseSlot?.();
+        // Errors raised before sending (open circuit, failed login) are already typed
+        if (error instanceof EfecteError) {
+          return Promise.reject(error);
+        }
+
         const requestUrl = error.config?.url || 'unknown';
         const requestMethod = error.config?.method?.toUpperCase() || 'UNKNOWN';
+        const attempt = error.config?.attempt ?? 1;
+
+        // Retry transient failures (timeouts, connection resets, 429, 5xx)
+        const retryDelay = error.config ? getRetryDelay(error, attempt) : null;
+        if (error.config && retryDelay !== null) {
+          logger.warn(`API request failed (attempt ${attempt}/${efecteConfig.retry.maxAttempts}), retrying in ${retryDelay}ms: ${requestMethod} ${requestUrl}`, {
+            status: error.response?.status,
+            code: error.code,
+          });
+          error.config.attempt = attempt + 1;
+          await new Promise(resolve => setTimeout(resolve, retryDelay));
+          return this.client.request(error.config);
+        }
+
+        // Only missing answers and server errors count against the backend
+        if (!error.response || error.response.status >= 500) {
+          this.circuitBreaker.recordFailure(error.response ? `HTTP ${error.response.status}` : error.message);
+        } else {
+          this.circuitBreaker.recordSuccess();
+        }
         
-        // Handle timeout errors
         if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          const timeout = error.config?.timeout || efecteConfig.timeout;
+          const timeout = error.config?.timeout || this.profile.timeout;
           logger.error(`API Request timeout: ${requestMethod} ${requestUrl}`, {
             timeout: `${timeout}ms`,
             message: `Request exceeded timeout of ${timeout}ms`,
           });
-          
-          const timeoutError = new Error(
-            `Request to ${requestUrl} timed out after ${timeout}ms. The server may be slow or unreachable.`
-          );
-          (timeoutError as any).code = 'ETIMEDOUT';
-          (timeoutError as any).isTimeout = true;
-          return Promise.reject(timeoutError);
-        }
-        
-        // Handle network errors
-        if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET') {
-          logger.error(`API Network error: ${requestMethod} ${requestUrl}`, {
-            code: error.code,
-            message: error.message,
-          });
-          
-          const networkError = new Error(
-            `Network error connecting to ${requestUrl}: ${error.message}. Please check your connection and server availability.`
-          );
-          (networkError as any).code = error.code;
-          (networkError as any).isNetworkError = true;
-          return Promise.reject(networkError);
-        }
-        
-        if (error.response) {
+        } else if (error.response) {
           logger.error(`API Error: ${error.response.status} ${requestUrl}`, {
             status: error.response.status,
             data: error.response.data,
@@ -111,33 +173,60 @@ export class EfecteApiClient {
           });
         }
         
-        return Promise.reject(error);
+        return Promise.reject(withAttempts(fromAxiosError(error), attempt));
       }
     );
   }
 
+  /**
+   * GET a resource
+   * Identical concurrent GETs (same URL and params, no other options) share one request;
+   * callers joining a request in flight get their own copy of the result.
+   */
   async get<T>(path: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.get<T>(getApiUrl(path), config);
-    return response.data;
+    const url = getApiUrl(path, this.profile);
+    this.getRequests++;
+
+    const { params, ...options } = config || {};
+    if (Object.keys(options).length > 0) {
+      const response = await this.client.get<T>(url, config);
+      return response.data;
+    }
+
+    const key = requestKey(url, params);
+    const inFlight = this.inFlightGets.get(key) as Promise<T> | undefined;
+    if (inFlight) {
+      this.coalescedGets++;
+      logger.debug(`Coalescing GET ${url} with the request in flight`);
+      return structuredClone(await inFlight);
+    }
+
+    const request = this.client.get<T>(url, config)
+      .then(response => response.data)
+      .finally(() => {
+        this.inFlightGets.delete(key);
+      });
+    this.inFlightGets.set(key, request);
+    return request;
   }
 
   async post<T>(path: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.post<T>(getApiUrl(path), data, config);
+    const response = await this.client.post<T>(getApiUrl(path, this.profile), data, config);
     return response.data;
   }
 
   async put<T>(path: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.put<T>(getApiUrl(path), data, config);
+    const response = await this.client.put<T>(getApiUrl(path, this.profile), data, config);
     return response.data;
   }
 
   async patch<T>(path: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.patch<T>(getApiUrl(path), data, config);
+    const response = await this.client.patch<T>(getApiUrl(path, this.profile), data, config);
     return response.data;
   }
 
   async delete<T>(path: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.delete<T>(getApiUrl(path), config);
+    const response = await this.client.delete<T>(getApiUrl(path, this.profile), config);
     return response.data;
   }
 
@@ -150,9 +239,9 @@ export class EfecteApiClient {
     formData.append('fileName', fileName);
 
     // Use longer timeout for file uploads if not specified
-    const uploadTimeout = timeout || efecteConfig.timeout * 3; // 3x default timeout for uploads
+    const uploadTimeout = timeout || this.profile.timeout * 3; // 3x default timeout for uploads
 
-    const response = await this.client.post(getApiUrl(path), formData, {
+    const response = await this.client.post(getApiUrl(path, this.profile), formData, {
       headers: {
         ...formData.getHeaders(),
       },
@@ -164,9 +253,9 @@ export class EfecteApiClient {
 
   async downloadFile(path: string, timeout?: number): Promise<Buffer> {
     // Use longer timeout for file downloads if not specified
-    const downloadTimeout = timeout || efecteConfig.timeout * 3; // 3x default timeout for downloads
+    const downloadTimeout = timeout || this.profile.timeout * 3; // 3x default timeout for downloads
     
-    const response = await this.client.get(getApiUrl(path), {
+    const response = await this.client.get(getApiUrl(path, this.profile), {
       responseType: 'arraybuffer',
       timeout: downloadTimeout,
     });
@@ -177,6 +266,47 @@ export class EfecteApiClient {
   getAuthManager(): AuthManager {
     return this.authManager;
   }
+
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  getThrottleStatus() {
+    return {
+      rate: this.rateLimiter.getStatus(),
+      concurrency: this.concurrency.getStatus(),
+    };
+  }
+
+  getCoalescingStats() {
+    return {
+      getRequests: this.getRequests,
+      coalesced: this.coalescedGets,
+      inFlight: this.inFlightGets.size,
+    };
+  }
+}
+
+const clients: Map<string, EfecteApiClient> = new Map();
+
+/**
+ * Get the API client of an Efecte instance
+ * Each instance has its own authentication token, circuit breaker and throttling.
+ * @param instance - Instance name, by default the instance selected for the current tool call
+ */
+export function getApiClient(instance?: string): EfecteApiClient {
+  const profile = getInstanceProfile(instance);
+  let client = clients.get(profile.name);
+  if (!client) {
+    client = new EfecteApiClient(profile);
+    clients.set(profile.name, client);
+  }
+  return client;
 }
 
-export const apiClient = new EfecteApiClient();
\ No newline at end of file
+/**
+ * Get the API clients created so far, one per instance used
+ */
+export function listApiClients(): EfecteApiClient[] {
+  return [...clients.values()];
+}
\ No newline at end of file
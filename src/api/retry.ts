@@ -0,0 +1,61 @@
+import { AxiosError } from 'axios';
+import { efecteConfig } from '../utils/config.js';
+import { parseRetryAfter } from '../utils/errors.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Makes POST and PATCH requests retryable; sent as Idempotency-Key header
+    idempotencyKey?: string;
+    // Number of the current attempt, maintained by the retry policy
+    attempt?: number;
+    // Releases the concurrency slot held by the request
+    releaseSlot?: () => void;
+  }
+}
+
+// Methods that can be repeated without changing the result
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Responses worth another attempt
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
+// Connection errors worth another attempt (DNS failures are not)
+const RETRYABLE_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Whether a failed request may be sent again
+ * Non-idempotent methods (POST, PATCH) are only retried when the caller supplied an idempotency key.
+ */
+export function isRetryable(error: AxiosError): boolean {
+  const method = error.config?.method?.toUpperCase() || '';
+  if (!IDEMPOTENT_METHODS.includes(method) && !error.config?.idempotencyKey) {
+    return false;
+  }
+
+  if (error.response) {
+    return RETRYABLE_STATUS_CODES.includes(error.response.status);
+  }
+  return RETRYABLE_ERROR_CODES.includes(error.code || '') || error.message.includes('timeout');
+}
+
+/**
+ * Delay before the next attempt, or null if the request should not be retried
+ * Exponential backoff from the base delay, with full jitter if enabled. A Retry-After
+ * header from the server takes precedence; if it asks for more than the maximum delay
+ * the request is not retried.
+ * @param attempt - Number of the attempt that just failed (1 for the first)
+ */
+export function getRetryDelay(error: AxiosError, attempt: number): number | null {
+  const { maxAttempts, baseDelay, maxDelay, jitter } = efecteConfig.retry;
+  if (attempt >= maxAttempts || !isRetryable(error)) {
+    return null;
+  }
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== null) {
+    return retryAfter <= maxDelay ? retryAfter : null;
+  }
+
+  const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return jitter ? Math.round(Math.random() * backoff) : backoff;
+}
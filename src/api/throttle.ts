@@ -0,0 +1,115 @@
+/**
+ * Outbound request throttling: a token bucket for the request rate and a
+ * semaphore for the number of requests in flight
+ */
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket rate limiter
+ * Allows bursts of up to capacity requests, refilled at ratePerSecond. Waiting callers are served in order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+  private waiting = 0;
+
+  /**
+   * @param ratePerSecond - Sustained request rate, 0 for no limit
+   * @param capacity - Maximum burst size
+   */
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait for a token
+   */
+  take(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return Promise.resolve();
+    }
+
+    this.waiting++;
+    const turn = this.queue.then(() => this.waitForToken()).finally(() => {
+      this.waiting--;
+    });
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) * 1000) / this.ratePerSecond));
+    }
+  }
+
+  getStatus(): { ratePerSecond: number; capacity: number; availableTokens: number; waiting: number } {
+    this.refill();
+    return {
+      ratePerSecond: this.ratePerSecond,
+      capacity: this.capacity,
+      availableTokens: Math.floor(this.tokens),
+      waiting: this.waiting,
+    };
+  }
+}
+
+/**
+ * Counting semaphore limiting concurrent requests
+ * Released slots are handed directly to the longest waiting caller.
+ */
+export class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  /**
+   * @param max - Maximum concurrent holders, 0 for no limit
+   */
+  constructor(private readonly max: number) {}
+
+  /**
+   * Wait for a slot
+   * @returns Function releasing the slot; calling it more than once has no effect
+   */
+  async acquire(): Promise<() => void> {
+    if (this.max > 0 && this.active >= this.max) {
+      // The releasing holder passes its slot on, so active stays unchanged
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  getStatus(): { maxConcurrent: number; inFlight: number; queued: number } {
+    return { maxConcurrent: this.max, inFlight: this.active, queued: this.waiting.length };
+  }
+}
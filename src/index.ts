@@ -2,8 +2,8 @@
 
 import { mcpServer } from './server.js';
 import { logger } from './utils/logger.js';
-import { startCacheCleanup, stopCacheCleanup } from './utils/cache.js';
-import { efecteConfig } from './utils/config.js';
+import { startCacheCleanup, stopCacheCleanup, flushCaches } from './utils/cache.js';
+import { efecteConfig, getInstanceProfile } from './utils/config.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -15,9 +15,11 @@ const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'),
 const VERSION = packageJson.version;
 
 function printBanner(): void {
-  const baseUrl = efecteConfig.baseUrl.length > 60 
-    ? efecteConfig.baseUrl.substring(0, 57) + '...'
-    : efecteConfig.baseUrl;
+  const defaultUrl = getInstanceProfile(efecteConfig.defaultInstance).baseUrl;
+  const baseUrl = defaultUrl.length > 60 
+    ? defaultUrl.substring(0, 57) + '...'
+    : defaultUrl;
+  const instances = `${Object.keys(efecteConfig.instances).join(', ')} (default: ${efecteConfig.defaultInstance})`;
   
   const banner = `                                                                                
 ============================================
@@ -26,6 +28,8 @@ EFECTE MCP (Model Context Protocol Server)
 📦 Version:       ${VERSION}
 🚀 Transport:     STDIO
 🏢 Base URL:      ${baseUrl}
+🔀 Instances:     ${instances}
+🔒 Access:        ${efecteConfig.access.readOnly ? 'read-only' : 'read-write'}
 
 📦 Package:       efecte-mcp
 👤 Author:        Shawn Maholick
@@ -47,6 +51,7 @@ async function main() {
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
       stopCacheCleanup();
+      await flushCaches();
       await mcpServer.stop();
       process.exit(0);
     });
@@ -54,6 +59,7 @@ async function main() {
     process.on('SIGTERM', async () => {
       logger.info('Received SIGTERM, shutting down gracefully...');
       stopCacheCleanup();
+      await flushCaches();
       await mcpServer.stop();
       process.exit(0);
     });
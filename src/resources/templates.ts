@@ -1,23 +1,13 @@
-import { apiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
-import { RESTTemplateInfoElement, RESTTemplateInfo } from '../types/efecte.js';
-import { Cache } from '../utils/cache.js';
-import { efecteConfig } from '../utils/config.js';
-
-const templateCache = new Cache<RESTTemplateInfo>('template-resources');
-const templateListCache = new Cache<RESTTemplateInfoElement[]>('template-list-resources');
+import { templateRegistry } from '../utils/template-registry.js';
+import { ValidationError } from '../utils/errors.js';
+import { checkTemplateAccess, isTemplateAllowed } from '../utils/access.js';
 
 export async function registerTemplateResources() {
   try {
-    let templates = templateListCache.get('all');
-    
-    if (!templates) {
-      logger.info('Fetching templates for resource registration');
-      templates = await apiClient.get<RESTTemplateInfoElement[]>('dc');
-      templateListCache.set('all', templates, efecteConfig.caching.templatesTTL);
-    }
+    const templates = await templateRegistry.list();
 
-    return templates.map(template => ({
+    return templates.filter(template => isTemplateAllowed(template.templateCode)).map(template => ({
       uri: `efecte://templates/${template.templateCode}`,
       name: template.name,
       description: `Template: ${template.name} (${template.templateCode})`,
@@ -31,18 +21,13 @@ export async function registerTemplateResources() {
 
 export async function readResource(uri: string): Promise<any> {
   if (!uri.startsWith('efecte://templates/')) {
-    throw new Error(`Invalid resource URI: ${uri}`);
+    throw new ValidationError(`Invalid resource URI: ${uri}`);
   }
 
   const templateCode = uri.replace('efecte://templates/', '');
-  
-  let template = templateCache.get(templateCode);
-  
-  if (!template) {
-    logger.info(`Fetching template resource: ${templateCode}`);
-    template = await apiClient.get<RESTTemplateInfo>(`dc/${templateCode}`);
-    templateCache.set(templateCode, template, efecteConfig.caching.templatesTTL);
-  }
+  checkTemplateAccess(templateCode);
+
+  const template = await templateRegistry.get(templateCode);
 
   return {
     templateCode: template.code,
@@ -13,14 +13,39 @@ import {
   ErrorCode,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
+import { EfecteApiClient, getApiClient, listApiClients } from './api/client.js';
 import { logger } from './utils/logger.js';
+import { runWithRequestContext, createProgressSender } from './utils/request-context.js';
 import { efecteConfig } from './utils/config.js';
+import { toMcpError } from './utils/errors.js';
 import { registerAuthTools } from './tools/auth.js';
 import { registerDataCardTools } from './tools/datacard.js';
 import { registerTemplateTools } from './tools/template.js';
 import { registerTestTools } from './tools/test.js';
 import { registerFileTools } from './tools/file.js';
+import { registerBulkTools } from './tools/bulk.js';
+import { registerJournalTools } from './tools/journal.js';
+import { registerCacheTools } from './tools/cache.js';
+import { registerInstanceTools, withInstanceArgument, takeInstanceArgument } from './tools/instance.js';
 import { registerTemplateResources } from './resources/templates.js';
+import { filterTools, checkToolAccess } from './utils/access.js';
+
+/**
+ * Definitions of all tools, before access filtering
+ */
+function toolDefinitions() {
+  return [
+    ...registerAuthTools(),
+    ...registerDataCardTools(),
+    ...registerTemplateTools(),
+    ...registerTestTools(),
+    ...registerFileTools(),
+    ...registerBulkTools(),
+    ...registerJournalTools(),
+    ...registerCacheTools(),
+    ...registerInstanceTools(),
+  ];
+}
 
 interface TransportInfo {
   transport: StreamableHTTPServerTransport;
@@ -143,17 +168,11 @@ export class EfecteHttpServer {
     server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.debug('Listing available tools');
       return {
-        tools: [
-          ...registerAuthTools(),
-          ...registerDataCardTools(),
-          ...registerTemplateTools(),
-          ...registerTestTools(),
-          ...registerFileTools(),
-        ],
+        tools: withInstanceArgument(filterTools(toolDefinitions())),
       };
     });
 
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       logger.info(`Calling tool: ${name}`);
       
@@ -163,6 +182,10 @@ export class EfecteHttpServer {
         const templateTools = await import('./tools/template.js');
         const testTools = await import('./tools/test.js');
         const fileTools = await import('./tools/file.js');
+        const bulkTools = await import('./tools/bulk.js');
+        const journalTools = await import('./tools/journal.js');
+        const cacheTools = await import('./tools/cache.js');
+        const instanceTools = await import('./tools/instance.js');
 
         const tools: Record<string, (args: any) => Promise<any>> = {
           ...authTools.tools,
@@ -170,14 +193,25 @@ export class EfecteHttpServer {
           ...templateTools.tools,
           ...testTools.tools,
           ...fileTools.tools,
+          ...bulkTools.tools,
+          ...journalTools.tools,
+          ...cacheTools.tools,
+          ...instanceTools.tools,
         };
 
         const tool = tools[name];
-        if (!tool) {
+        const definition = toolDefinitions().find(candidate => candidate.name === name);
+        if (!tool || !definition) {
           throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
         }
 
-        const result = await tool(args);
+        const { instance, args: toolArgs } = takeInstanceArgument(args);
+        checkToolAccess(definition, toolArgs);
+        // Requests without a session get a journal session of their own, so they never see or undo each other's changes
+        const result = await runWithRequestContext(
+          { sessionId: extra.sessionId ?? `request-${randomUUID()}`, tool: name, instance, sendProgress: createProgressSender(extra) },
+          () => tool(toolArgs)
+        );
         
         return {
           content: [
@@ -189,16 +223,7 @@ export class EfecteHttpServer {
         };
       } catch (error: unknown) {
         logger.error(`Tool execution failed: ${name}`, error);
-        
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${errorMessage}`
-        );
+        throw toMcpError(error, 'Tool execution failed');
       }
     });
 
@@ -227,11 +252,7 @@ export class EfecteHttpServer {
         };
       } catch (error: unknown) {
         logger.error(`Resource read failed: ${uri}`, error);
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Resource read failed: ${errorMessage}`
-        );
+        throw toMcpError(error, 'Resource read failed');
       }
     });
 
@@ -242,11 +263,26 @@ export class EfecteHttpServer {
 
   private setupRoutes(): void {
     this.app.get('/health', (_req, res) => {
+      const describeClient = (client: EfecteApiClient) => ({
+        backend: client.getCircuitBreaker().getStatus(),
+        requests: {
+          throttle: client.getThrottleStatus(),
+          coalescing: client.getCoalescingStats(),
+        },
+      });
+      // Instances that have not been used yet have no client
+      const instances = Object.fromEntries(
+        listApiClients().map(client => [client.profile.name, describeClient(client)])
+      );
+      const degraded = Object.values(instances).some(instance => instance.backend.state !== 'closed');
       res.json({
-        status: 'ok',
+        status: degraded ? 'degraded' : 'ok',
         service: 'efecte-mcp-server',
         transport: 'http',
         sessions: this.transports.size,
+        // Default instance
+        ...describeClient(getApiClient(efecteConfig.defaultInstance)),
+        instances,
       });
     });
 
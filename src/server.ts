@@ -9,13 +9,37 @@ import {
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from './utils/logger.js';
+import { runWithRequestContext, createProgressSender } from './utils/request-context.js';
 import { efecteConfig } from './utils/config.js';
+import { toMcpError } from './utils/errors.js';
 import { registerAuthTools } from './tools/auth.js';
 import { registerDataCardTools } from './tools/datacard.js';
 import { registerTemplateTools } from './tools/template.js';
 import { registerTestTools } from './tools/test.js';
 import { registerFileTools } from './tools/file.js';
+import { registerBulkTools } from './tools/bulk.js';
+import { registerJournalTools } from './tools/journal.js';
+import { registerCacheTools } from './tools/cache.js';
+import { registerInstanceTools, withInstanceArgument, takeInstanceArgument } from './tools/instance.js';
 import { registerTemplateResources } from './resources/templates.js';
+import { filterTools, checkToolAccess } from './utils/access.js';
+
+/**
+ * Definitions of all tools, before access filtering
+ */
+function toolDefinitions() {
+  return [
+    ...registerAuthTools(),
+    ...registerDataCardTools(),
+    ...registerTemplateTools(),
+    ...registerTestTools(),
+    ...registerFileTools(),
+    ...registerBulkTools(),
+    ...registerJournalTools(),
+    ...registerCacheTools(),
+    ...registerInstanceTools(),
+  ];
+}
 
 export class EfecteMcpServer {
   private server: Server;
@@ -44,17 +68,11 @@ export class EfecteMcpServer {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.debug('Listing available tools');
       return {
-        tools: [
-          ...registerAuthTools(),
-          ...registerDataCardTools(),
-          ...registerTemplateTools(),
-          ...registerTestTools(),
-          ...registerFileTools(),
-        ],
+        tools: withInstanceArgument(filterTools(toolDefinitions())),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       logger.info(`Calling tool: ${name}`);
       
@@ -64,6 +82,10 @@ export class EfecteMcpServer {
         const templateTools = await import('./tools/template.js');
         const testTools = await import('./tools/test.js');
         const fileTools = await import('./tools/file.js');
+        const bulkTools = await import('./tools/bulk.js');
+        const journalTools = await import('./tools/journal.js');
+        const cacheTools = await import('./tools/cache.js');
+        const instanceTools = await import('./tools/instance.js');
 
         const tools: Record<string, (args: any) => Promise<any>> = {
           ...authTools.tools,
@@ -71,14 +93,24 @@ export class EfecteMcpServer {
           ...templateTools.tools,
           ...testTools.tools,
           ...fileTools.tools,
+          ...bulkTools.tools,
+          ...journalTools.tools,
+          ...cacheTools.tools,
+          ...instanceTools.tools,
         };
 
         const tool = tools[name];
-        if (!tool) {
+        const definition = toolDefinitions().find(candidate => candidate.name === name);
+        if (!tool || !definition) {
           throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
         }
 
-        const result = await tool(args);
+        const { instance, args: toolArgs } = takeInstanceArgument(args);
+        checkToolAccess(definition, toolArgs);
+        const result = await runWithRequestContext(
+          { sessionId: extra.sessionId ?? 'stdio', tool: name, instance, sendProgress: createProgressSender(extra) },
+          () => tool(toolArgs)
+        );
         
         return {
           content: [
@@ -90,16 +122,7 @@ export class EfecteMcpServer {
         };
       } catch (error: unknown) {
         logger.error(`Tool execution failed: ${name}`, error);
-        
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${errorMessage}`
-        );
+        throw toMcpError(error, 'Tool execution failed');
       }
     });
 
@@ -128,11 +151,7 @@ export class EfecteMcpServer {
         };
       } catch (error: unknown) {
         logger.error(`Resource read failed: ${uri}`, error);
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Resource read failed: ${errorMessage}`
-        );
+        throw toMcpError(error, 'Resource read failed');
       }
     });
 
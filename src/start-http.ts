@@ -25,13 +25,15 @@ if (!process.env.EFECTE_TRANSPORT_HTTP_HOST) {
 
 import { httpServer } from './server-http.js';
 import { logger } from './utils/logger.js';
-import { efecteConfig } from './utils/config.js';
-import { startCacheCleanup, stopCacheCleanup } from './utils/cache.js';
+import { efecteConfig, getInstanceProfile } from './utils/config.js';
+import { startCacheCleanup, stopCacheCleanup, flushCaches } from './utils/cache.js';
 
 function printBanner(port: number, host: string): void {
-  const baseUrl = efecteConfig.baseUrl.length > 60 
-    ? efecteConfig.baseUrl.substring(0, 57) + '...'
-    : efecteConfig.baseUrl;
+  const defaultUrl = getInstanceProfile(efecteConfig.defaultInstance).baseUrl;
+  const baseUrl = defaultUrl.length > 60 
+    ? defaultUrl.substring(0, 57) + '...'
+    : defaultUrl;
+  const instances = `${Object.keys(efecteConfig.instances).join(', ')} (default: ${efecteConfig.defaultInstance})`;
   
   const healthUrl = `http://${host}:${port}/health`;
   const mcpUrl = `http://${host}:${port}/mcp`;
@@ -47,6 +49,8 @@ EFECTE MCP (Model Context Protocol Server)
 📡 Health Check:  ${healthUrl}
 🔗 MCP Endpoint:  ${mcpUrl}
 🏢 Base URL:      ${baseUrl}
+🔀 Instances:     ${instances}
+🔒 Access:        ${efecteConfig.access.readOnly ? 'read-only' : 'read-write'}
 
 📦 Package:       efecte-mcp
 👤 Author:        Shawn Maholick
@@ -66,7 +70,9 @@ async function main() {
     
     logger.info('Starting Efecte MCP Server in HTTP mode...');
     logger.info(`Configuration:`, {
-      baseUrl: efecteConfig.baseUrl,
+      baseUrl: getInstanceProfile(efecteConfig.defaultInstance).baseUrl,
+      instances: Object.keys(efecteConfig.instances),
+      readOnly: efecteConfig.access.readOnly,
       transport: 'streamable-http',
       port,
       host,
@@ -78,6 +84,7 @@ async function main() {
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
       stopCacheCleanup();
+      await flushCaches();
       await httpServer.stop();
       process.exit(0);
     });
@@ -85,6 +92,7 @@ async function main() {
     process.on('SIGTERM', async () => {
       logger.info('Received SIGTERM, shutting down gracefully...');
       stopCacheCleanup();
+      await flushCaches();
       await httpServer.stop();
       process.exit(0);
     });
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { apiClient } from '../api/client.js';
+import { getApiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
 
 const LoginSchema = z.object({});
@@ -40,7 +40,7 @@ export function registerAuthTools() {
 async function login(_args: z.infer<typeof LoginSchema>) {
   try {
     logger.info('Attempting to login to Efecte API');
-    const token = await apiClient.getAuthManager().authenticate();
+    const token = await getApiClient().getAuthManager().authenticate();
     return {
       success: true,
       message: 'Successfully authenticated with Efecte API',
@@ -59,7 +59,7 @@ async function login(_args: z.infer<typeof LoginSchema>) {
 async function logout(_args: z.infer<typeof LogoutSchema>) {
   try {
     logger.info('Logging out from Efecte API');
-    apiClient.getAuthManager().clearToken();
+    getApiClient().getAuthManager().clearToken();
     return {
       success: true,
       message: 'Successfully logged out from Efecte API',
@@ -76,7 +76,7 @@ async function logout(_args: z.infer<typeof LogoutSchema>) {
 
 async function checkAuth(_args: z.infer<typeof CheckAuthSchema>) {
   try {
-    const isAuthenticated = apiClient.getAuthManager().isAuthenticated();
+    const isAuthenticated = getApiClient().getAuthManager().isAuthenticated();
     return {
       authenticated: isAuthenticated,
       message: isAuthenticated 
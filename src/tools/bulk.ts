@@ -0,0 +1,614 @@
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { getApiClient } from '../api/client.js';
+import { logger } from '../utils/logger.js';
+import { validateTemplateCode, validateDataCardId, validateNonEmpty } from '../utils/validation.js';
+import { templateRegistry } from '../utils/template-registry.js';
+import { DataCardData } from '../utils/datacard-input.js';
+import { prepareWriteInput, splitClearedAttributes, postDataCard, patchDataCard, trashDataCard, DataCardWriteResult } from '../utils/datacard-write.js';
+import { runWithConcurrency } from '../utils/pool.js';
+import { reportProgress, getRequestContext } from '../utils/request-context.js';
+import { getInstanceProfile } from '../utils/config.js';
+import { walkPages } from '../utils/pagination.js';
+import { validateEql, describeEqlIssues, isBlockingEqlIssue, compileWhere, EqlFilterCondition, EqlIssue } from '../utils/eql.js';
+import { flattenDataCard } from '../utils/flatten.js';
+import { Cache } from '../utils/cache.js';
+import {
+  EfecteError,
+  EfecteErrorKind,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  RESTWarning,
+  withContext,
+} from '../utils/errors.js';
+import {
+  ImportResult,
+  RESTDataCard,
+  RESTTemplateInfo,
+  RESTError,
+  RESTPaginatedDataCardsInfo,
+} from '../types/efecte.js';
+
+// Upper bounds for a single bulk call
+const MAX_OPERATIONS = 500;
+const MAX_CONCURRENCY = 20;
+const DEFAULT_CONCURRENCY = 5;
+
+// Limits for bulk updates by filter
+const DEFAULT_FILTER_MAX_ITEMS = 200;
+const MAX_FILTER_ITEMS = 1000;
+const DEFAULT_SAMPLE_SIZE = 5;
+const CONFIRMATION_TTL = 15 * 60 * 1000;
+
+/**
+ * Bulk update by filter waiting for confirmation, keyed by confirmation token
+ */
+interface PendingFilterUpdate {
+  // Session and instance the preview was made in, only they can confirm it
+  sessionId?: string;
+  instance: string;
+  templateCode: string;
+  filter: string;
+  folderCode?: string;
+  data: DataCardData;
+  dataCardIds: string[];
+}
+
+// Previews waiting for confirmation
+const pendingUpdateCache = new Cache<PendingFilterUpdate>('bulk-update-confirmations', { memoryOnly: true });
+
+const BulkOperationSchema = z.object({
+  action: z.enum(['create', 'update', 'delete']).describe('Operation type'),
+  templateCode: z.string().describe('Template code'),
+  dataCardId: z.string().optional().describe('Data card ID (update and delete)'),
+  folderCode: z.string().optional().describe('Folder code (required for create)'),
+  data: z.record(z.string(), z.any()).optional().describe('Data card attributes in raw or flat format'),
+  clear: z.array(z.string()).optional().describe('Attributes to clear (update only)'),
+  reference: z.string().optional().describe('Caller-defined identifier echoed in the result'),
+});
+
+/**
+ * Schema for running several create/update/delete operations in one call
+ */
+const BulkDataCardsSchema = z.object({
+  operations: z.array(BulkOperationSchema).describe('Operations to run'),
+  stopOnError: z.boolean().optional().default(false).describe('Stop starting new operations after the first failure'),
+  concurrency: z.number().optional().default(DEFAULT_CONCURRENCY).describe('Maximum number of operations in flight'),
+  createEmptyReferences: z.string().optional(),
+});
+
+/**
+ * Schema for updating all data cards matching a filter (preview, then apply with confirmation token)
+ */
+const BulkUpdateByFilterSchema = z.object({
+  templateCode: z.string().describe('Template code'),
+  filter: z.string().optional().describe('EQL filter selecting the data cards to update'),
+  where: z.custom<EqlFilterCondition>().optional().describe('Structured filter compiled to EQL (alternative to filter)'),
+  data: z.record(z.string(), z.any()).optional().describe('Attributes to set on every matching data card'),
+  folderCode: z.string().optional().describe('Folder to move every matching data card to'),
+  maxItems: z.number().optional().default(DEFAULT_FILTER_MAX_ITEMS).describe('Maximum number of data cards to update'),
+  sampleSize: z.number().optional().default(DEFAULT_SAMPLE_SIZE).describe('Number of matching data cards shown in the preview'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview; applies the previewed update'),
+  concurrency: z.number().optional().default(DEFAULT_CONCURRENCY).describe('Maximum number of updates in flight'),
+  stopOnError: z.boolean().optional().default(false).describe('Stop starting new updates after the first failure'),
+});
+
+type BulkOperation = z.infer<typeof BulkOperationSchema>;
+
+interface BulkOperationResult {
+  index: number;
+  reference?: string;
+  action: BulkOperation['action'];
+  templateCode: string;
+  dataCardId?: string;
+  status: 'saved' | 'failed' | 'skipped';
+  // Undo journal entry of a saved operation
+  changeId?: string;
+  message?: string;
+  errorKind?: EfecteErrorKind;
+  errors?: RESTError[];
+  // Problems reported by Efecte although the data card was saved
+  warnings?: RESTWarning[];
+}
+
+export function registerBulkTools() {
+  return [
+    {
+      name: 'efecte_bulk_datacards',
+      mutating: true,
+      description: `Create, update and delete many data cards in one call, across templates. Operations run with bounded concurrency and each is validated and converted like the single-card tools. Returns a result per operation (status, data card ID, errors) and an aggregate summary. With stopOnError, operations not yet started after the first failure are skipped. At most ${MAX_OPERATIONS} operations per call.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            description: 'Operations to run',
+            items: {
+              type: 'object',
+              properties: {
+                action: { type: 'string', enum: ['create', 'update', 'delete'], description: 'Operation type' },
+                templateCode: { type: 'string', description: 'Template code' },
+                dataCardId: { type: 'string', description: 'Data card ID (required for update and delete)' },
+                folderCode: { type: 'string', description: 'Folder code or name (required for create)' },
+                data: { type: 'object', description: 'Data card attributes, raw as { "<attribute>": { "values": [...] } } or flat as { "<attribute>": value or [values] }' },
+                clear: { type: 'array', items: { type: 'string' }, description: 'Attribute codes to clear (update only)' },
+                reference: { type: 'string', description: 'Identifier of your choice, echoed in the result' },
+              },
+              required: ['action', 'templateCode'],
+            },
+          },
+          stopOnError: { type: 'boolean', default: false, description: 'Stop starting new operations after the first failure (default: continue with all operations)' },
+          concurrency: { type: 'number', default: DEFAULT_CONCURRENCY, description: `Maximum number of operations in flight (1-${MAX_CONCURRENCY})` },
+          createEmptyReferences: { type: 'string' },
+        },
+        required: ['operations'],
+      },
+    },
+    {
+      name: 'efecte_bulk_update_by_filter',
+      mutating: true,
+      description: 'Set the same attributes on every data card matching a filter. Works in two steps: a call without confirmationToken only previews the update (number of matching data cards, a sample with their current values and a confirmationToken); calling again with that confirmationToken applies exactly the previewed update to the previewed data cards that still match the filter, sending progress notifications when the client asks for them. The result includes progress, per-card status and a rollback log with the previous values as efecte_bulk_datacards operations. Tokens are single-use, only valid in the session that made the preview and expire after 15 minutes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          templateCode: { type: 'string', description: 'Template code' },
+          filter: { type: 'string', description: 'EQL filter selecting the data cards to update, e.g. $status$ = \'02 - Solving\'' },
+          where: { type: 'object', description: 'Structured filter compiled to EQL, alternative to filter (see efecte_list_datacards)' },
+          data: { type: 'object', description: 'Attributes to set, raw as { "<attribute>": { "values": [...] } } or flat as { "<attribute>": value or [values] }' },
+          folderCode: { type: 'string', description: 'Folder code (or name) to move the data cards to' },
+          maxItems: { type: 'number', default: DEFAULT_FILTER_MAX_ITEMS, description: `Maximum number of data cards to update (up to ${MAX_FILTER_ITEMS}). The preview reports whether more data cards match` },
+          sampleSize: { type: 'number', default: DEFAULT_SAMPLE_SIZE, description: 'Number of matching data cards shown in the preview' },
+          confirmationToken: { type: 'string', description: 'Token from the preview call. When given, the previewed update is applied; filter and data may be omitted, and must match the preview if given' },
+          concurrency: { type: 'number', default: DEFAULT_CONCURRENCY, description: `Maximum number of updates in flight (1-${MAX_CONCURRENCY})` },
+          stopOnError: { type: 'boolean', default: false, description: 'Stop starting new updates after the first failure' },
+        },
+        required: ['templateCode'],
+      },
+    },
+  ];
+}
+
+/**
+ * Message, kind and per-attribute errors of a failed operation
+ */
+function describeFailure(error: unknown): Pick<BulkOperationResult, 'message' | 'errorKind' | 'errors'> {
+  if (!(error instanceof EfecteError)) {
+    return { message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  return {
+    message: error.message,
+    errorKind: error.kind,
+    ...(error.errors && error.errors.length > 0 && { errors: error.errors }),
+  };
+}
+
+/**
+ * Count results in the shape of Efecte's ImportResult, plus skipped operations
+ */
+function summarizeResults(results: BulkOperationResult[]): ImportResult & { skippedDataCards: number } {
+  return {
+    handledDataCards: results.filter(result => result.status !== 'skipped').length,
+    savedDataCards: results.filter(result => result.status === 'saved').length,
+    notSavedDataCards: results.filter(result => result.status === 'failed').length,
+    skippedDataCards: results.filter(result => result.status === 'skipped').length,
+  };
+}
+
+/**
+ * Run a single operation
+ * @returns Result with status saved, or failed with the error message and Efecte errors
+ */
+async function runOperation(
+  operation: BulkOperation,
+  index: number,
+  params: Record<string, string>
+): Promise<BulkOperationResult> {
+  const base = {
+    index,
+    ...(operation.reference !== undefined && { reference: operation.reference }),
+    action: operation.action,
+    templateCode: operation.templateCode,
+    ...(operation.dataCardId !== undefined && { dataCardId: operation.dataCardId }),
+  };
+
+  try {
+    if (!['create', 'update', 'delete'].includes(operation.action)) {
+      throw new ValidationError(`Unknown action "${operation.action}", expected create, update or delete`);
+    }
+    validateTemplateCode(operation.templateCode);
+
+    if (operation.action === 'delete') {
+      validateDataCardId(operation.dataCardId!);
+      // The current state is kept in the undo journal like for single deletes
+      const current = await getApiClient().get<RESTDataCard>(`dc/${operation.templateCode}/data/${operation.dataCardId}`);
+      const { entry } = await trashDataCard(operation.templateCode, operation.dataCardId!, current);
+      return { ...base, status: 'saved', changeId: entry.id };
+    }
+
+    if (operation.action === 'create') {
+      validateNonEmpty(operation.folderCode!, 'Folder code');
+      if (operation.clear && operation.clear.length > 0) {
+        throw new ValidationError('clear is only supported for update operations');
+      }
+    } else {
+      validateDataCardId(operation.dataCardId!);
+    }
+
+    const templateInfo = await templateRegistry.get(operation.templateCode);
+    const { prepared } = await prepareWriteInput(templateInfo, { folderCode: operation.folderCode, data: operation.data });
+    // Attributes updated to null or [] are cleared like the ones listed in clear
+    const { data, clear: emptied } = operation.action === 'update'
+      ? splitClearedAttributes(prepared.data)
+      : { data: prepared.data, clear: [] };
+    const clear = operation.clear || [];
+    for (const attributeCode of clear) {
+      if (!templateInfo.attributes?.[attributeCode]) {
+        throw new ValidationError(`Unknown attribute "${attributeCode}" in clear for template ${operation.templateCode}`);
+      }
+      if (data?.[attributeCode]) {
+        throw new ValidationError(`Attribute "${attributeCode}" is both set in data and cleared`);
+      }
+    }
+    const write = { templateCode: operation.templateCode, templateInfo, params };
+
+    let saved: DataCardWriteResult;
+    if (operation.action === 'create') {
+      saved = await postDataCard(write, { folderCode: prepared.folderCode!, data });
+    } else {
+      const current = await getApiClient().get<RESTDataCard>(`dc/${operation.templateCode}/data/${operation.dataCardId}`);
+      saved = await patchDataCard(write, current, {
+        dataCardId: operation.dataCardId!,
+        folderCode: prepared.folderCode,
+        data,
+      }, [...new Set([...clear, ...emptied])]);
+    }
+
+    const dataCardId = saved.result?.dataCard?.dataCardId ?? operation.dataCardId;
+    return {
+      ...base,
+      ...(dataCardId !== undefined && { dataCardId }),
+      status: 'saved',
+      changeId: saved.entry.id,
+      ...(saved.warnings.length > 0 && { warnings: saved.warnings }),
+    };
+  } catch (error: unknown) {
+    const failure = describeFailure(error);
+    logger.warn(`Bulk operation ${index} (${operation.action} ${operation.templateCode}) failed: ${failure.message}`);
+    return { ...base, status: 'failed', ...failure };
+  }
+}
+
+/**
+ * Run create, update and delete operations with bounded concurrency
+ * @param args - Operations and execution options
+ * @returns Per-operation results and an ImportResult-style summary
+ */
+async function bulkDataCards(args: z.infer<typeof BulkDataCardsSchema>) {
+  try {
+    if (!Array.isArray(args.operations) || args.operations.length === 0) {
+      throw new ValidationError('At least one operation is required');
+    }
+    if (args.operations.length > MAX_OPERATIONS) {
+      throw new ValidationError(`Too many operations: ${args.operations.length} (maximum ${MAX_OPERATIONS} per call)`);
+    }
+
+    const concurrency = Math.min(Math.max(Math.floor(args.concurrency ?? DEFAULT_CONCURRENCY), 1), MAX_CONCURRENCY);
+    const params: Record<string, string> = {};
+    if (args.createEmptyReferences) params.createEmptyReferences = args.createEmptyReferences;
+
+    logger.info(`Running ${args.operations.length} bulk operation(s) with concurrency ${concurrency}`);
+
+    let failed = false;
+    const results = await runWithConcurrency(
+      args.operations,
+      concurrency,
+      async (operation, index) => {
+        const result = await runOperation(operation, index, params);
+        if (result.status === 'failed') {
+          failed = true;
+        }
+        return result;
+      },
+      () => (args.stopOnError ?? false) && failed
+    );
+
+    const operationResults: BulkOperationResult[] = results.map((result, index) => result ?? {
+      index,
+      ...(args.operations[index].reference !== undefined && { reference: args.operations[index].reference }),
+      action: args.operations[index].action,
+      templateCode: args.operations[index].templateCode,
+      ...(args.operations[index].dataCardId !== undefined && { dataCardId: args.operations[index].dataCardId }),
+      status: 'skipped',
+      message: 'Not started because an earlier operation failed',
+    });
+
+    const summary = summarizeResults(operationResults);
+
+    logger.info(`Bulk operations finished: ${summary.savedDataCards} saved, ${summary.notSavedDataCards} failed, ${summary.skippedDataCards} skipped`);
+
+    return {
+      success: summary.savedDataCards === args.operations.length,
+      summary,
+      results: operationResults,
+    };
+  } catch (error: unknown) {
+    logger.error('Bulk data card operations failed', error);
+    throw withContext(error, 'Failed to run bulk operations');
+  }
+}
+
+/**
+ * Resolve the filter of a bulk update; an empty filter is rejected so a mistake cannot touch every data card
+ * Like the list tools, only unknown attributes and static values are rejected locally; other issues are
+ * left to the server and returned as warnings.
+ */
+function resolveBulkFilter(templateInfo: RESTTemplateInfo, filter?: string, where?: EqlFilterCondition): { filter: string; warnings: EqlIssue[] } {
+  if (filter && where) {
+    throw new ValidationError('Use either filter or where, not both');
+  }
+  if (where) {
+    return { filter: compileWhere(where, templateInfo), warnings: [] };
+  }
+  if (!filter || filter.trim().length === 0) {
+    throw new ValidationError('A filter or where condition is required');
+  }
+  const validation = validateEql(filter, templateInfo);
+  const blocking = validation.issues.filter(isBlockingEqlIssue);
+  if (blocking.length > 0) {
+    throw new ValidationError(`Invalid filter:\n${describeEqlIssues(filter, blocking)}`);
+  }
+  return { filter, warnings: validation.issues.filter(issue => !isBlockingEqlIssue(issue)) };
+}
+
+/**
+ * Walk the data cards matching a filter, with the values of the given attributes
+ */
+function queryFilter(templateCode: string, filter: string, attributeCodes: string[], maxItems: number) {
+  const params: Record<string, string | number | boolean> = { limit: 200, filter, dataCards: true };
+  if (attributeCodes.length > 0) {
+    params.selectedAttributes = attributeCodes.join(',');
+  }
+  return walkPages(
+    (pageParams) => getApiClient().get<RESTPaginatedDataCardsInfo>(`dc/${templateCode}/data`, { params: pageParams }),
+    { params, skip: 0 },
+    maxItems
+  );
+}
+
+/**
+ * Preview a bulk update: enumerate the matching data cards and issue a confirmation token
+ */
+async function previewFilterUpdate(
+  args: z.infer<typeof BulkUpdateByFilterSchema>,
+  templateInfo: RESTTemplateInfo,
+  filter: string,
+  prepared: { folderCode?: string; data: DataCardData },
+  filterWarnings: EqlIssue[]
+) {
+  const maxItems = Math.min(Math.max(Math.floor(args.maxItems ?? DEFAULT_FILTER_MAX_ITEMS), 1), MAX_FILTER_ITEMS);
+  const walked = await queryFilter(args.templateCode, filter, Object.keys(prepared.data), maxItems);
+
+  const dataCardIds = walked.data.map(card => card.dataCardId);
+  const sample = walked.data
+    .slice(0, Math.max(0, args.sampleSize ?? DEFAULT_SAMPLE_SIZE))
+    .map(card => flattenDataCard(card, templateInfo));
+
+  if (dataCardIds.length === 0) {
+    return {
+      preview: true,
+      matched: 0,
+      message: `No data cards in ${args.templateCode} match ${filter}, nothing to update`,
+    };
+  }
+
+  const confirmationToken = randomUUID();
+  pendingUpdateCache.set(confirmationToken, {
+    sessionId: getRequestContext()?.sessionId,
+    instance: getInstanceProfile().name,
+    templateCode: args.templateCode,
+    filter,
+    ...(prepared.folderCode !== undefined && { folderCode: prepared.folderCode }),
+    data: prepared.data,
+    dataCardIds,
+  }, CONFIRMATION_TTL);
+
+  logger.info(`Previewed bulk update of ${dataCardIds.length} data card(s) in ${args.templateCode}`);
+
+  return {
+    preview: true,
+    matched: dataCardIds.length,
+    hasMore: walked.next !== null,
+    filter,
+    ...(filterWarnings.length > 0 && { filterWarnings }),
+    ...(prepared.folderCode !== undefined && { folderCode: prepared.folderCode }),
+    data: prepared.data,
+    sample,
+    confirmationToken,
+    expiresInSeconds: CONFIRMATION_TTL / 1000,
+    message: `${dataCardIds.length} data card(s)${walked.next !== null ? ' (limited by maxItems, more match)' : ''} would be updated. ` +
+      'Call efecte_bulk_update_by_filter again with this confirmationToken to apply the update.',
+  };
+}
+
+/**
+ * Apply a previewed bulk update, recording the previous values of every updated data card
+ * The filter is run again first: previewed data cards that no longer match (among the first MAX_FILTER_ITEMS)
+ * are skipped, data cards that match now but were not previewed are only counted.
+ */
+async function applyFilterUpdate(
+  pending: PendingFilterUpdate,
+  templateInfo: RESTTemplateInfo,
+  args: z.infer<typeof BulkUpdateByFilterSchema>
+) {
+  const concurrency = Math.min(Math.max(Math.floor(args.concurrency ?? DEFAULT_CONCURRENCY), 1), MAX_CONCURRENCY);
+  const attributeCodes = Object.keys(pending.data);
+  const { data, clear: emptied } = splitClearedAttributes(pending.data);
+  const total = pending.dataCardIds.length;
+  const progressStep = Math.max(1, Math.floor(total / 10));
+  const rollback: BulkOperation[] = [];
+  let completed = 0;
+  let failed = false;
+
+  const matching = await queryFilter(pending.templateCode, pending.filter, attributeCodes, MAX_FILTER_ITEMS);
+  const matchingIds = new Set(matching.data.map(card => card.dataCardId));
+  const previewedIds = new Set(pending.dataCardIds);
+  const notPreviewed = [...matchingIds].filter(dataCardId => !previewedIds.has(dataCardId)).length;
+
+  logger.info(`Applying bulk update to ${total} data card(s) in ${pending.templateCode} with concurrency ${concurrency}`);
+  await reportProgress(0, total, `Updating ${total} data card(s) in ${pending.templateCode}`);
+
+  const results = await runWithConcurrency(
+    pending.dataCardIds,
+    concurrency,
+    async (dataCardId, index): Promise<BulkOperationResult> => {
+      const base = { index, action: 'update' as const, templateCode: pending.templateCode, dataCardId };
+      const path = `dc/${pending.templateCode}/data/${dataCardId}`;
+      let result: BulkOperationResult;
+
+      if (!matchingIds.has(dataCardId)) {
+        result = { ...base, status: 'skipped', message: 'No longer matches the filter, not updated' };
+      } else {
+        try {
+          const current = await getApiClient().get<RESTDataCard>(path, {
+            params: attributeCodes.length > 0 ? { selectedAttributes: attributeCodes.join(',') } : {},
+          });
+
+          const saved = await patchDataCard({ templateCode: pending.templateCode, templateInfo }, current, {
+            dataCardId,
+            ...(pending.folderCode !== undefined && { folderCode: pending.folderCode }),
+            data,
+          }, emptied);
+
+          // Attributes that were empty are cleared on rollback, sending them without values may leave the new values
+          const previous: DataCardData = {};
+          const clear: string[] = [];
+          for (const attributeCode of attributeCodes) {
+            const values = current.data?.[attributeCode]?.values || [];
+            if (values.length > 0) {
+              previous[attributeCode] = { values };
+            } else {
+              clear.push(attributeCode);
+            }
+          }
+          rollback.push({
+            action: 'update',
+            templateCode: pending.templateCode,
+            dataCardId,
+            ...(pending.folderCode !== undefined && current.folderCode && { folderCode: current.folderCode }),
+            data: previous,
+            ...(clear.length > 0 && { clear }),
+          });
+
+          result = {
+            ...base,
+            status: 'saved',
+            changeId: saved.entry.id,
+            ...(saved.warnings.length > 0 && { warnings: saved.warnings }),
+          };
+        } catch (error: unknown) {
+          const failure = describeFailure(error);
+          logger.warn(`Bulk update of data card ${dataCardId} failed: ${failure.message}`);
+          failed = true;
+          result = { ...base, status: 'failed', ...failure };
+        }
+      }
+
+      completed++;
+      if (completed % progressStep === 0 || completed === total) {
+        logger.info(`Bulk update progress: ${completed}/${total} data card(s) in ${pending.templateCode}`);
+      }
+      await reportProgress(completed, total, `Processed ${completed}/${total} data card(s) in ${pending.templateCode}`);
+      return result;
+    },
+    () => (args.stopOnError ?? false) && failed
+  );
+
+  const updateResults: BulkOperationResult[] = results.map((result, index) => result ?? {
+    index,
+    action: 'update',
+    templateCode: pending.templateCode,
+    dataCardId: pending.dataCardIds[index],
+    status: 'skipped',
+    message: 'Not started because an earlier update failed',
+  });
+  const summary = summarizeResults(updateResults);
+
+  logger.info(`Bulk update finished: ${summary.savedDataCards} saved, ${summary.notSavedDataCards} failed, ${summary.skippedDataCards} skipped`);
+
+  return {
+    applied: true,
+    success: summary.savedDataCards === total,
+    filter: pending.filter,
+    summary,
+    progress: { completed, total },
+    ...(notPreviewed > 0 && {
+      notPreviewed,
+      message: `${notPreviewed} data card(s) match the filter now but were not previewed and were not updated`,
+    }),
+    results: updateResults,
+    // Previous values of the updated data cards; pass as operations to efecte_bulk_datacards to revert
+    rollback,
+  };
+}
+
+/**
+ * Update all data cards matching a filter
+ * Without a confirmation token only a preview is returned; with the token the previewed update is applied.
+ * @param args - Template, filter, attributes to set and confirmation token
+ */
+async function bulkUpdateByFilter(args: z.infer<typeof BulkUpdateByFilterSchema>) {
+  try {
+    validateTemplateCode(args.templateCode);
+    const templateInfo = await templateRegistry.get(args.templateCode);
+
+    const pending = args.confirmationToken ? pendingUpdateCache.get(args.confirmationToken) : null;
+    if (args.confirmationToken && !pending) {
+      throw new NotFoundError('Confirmation token is unknown, already used or expired. Run the preview again to get a new token');
+    }
+    if (pending && (pending.sessionId !== getRequestContext()?.sessionId || pending.instance !== getInstanceProfile().name)) {
+      throw new ForbiddenError('Confirmation token was issued in another session or for another instance and cannot be used from this one');
+    }
+    if (pending && pending.templateCode !== args.templateCode) {
+      throw new ValidationError(`Confirmation token was issued for template ${pending.templateCode}, not ${args.templateCode}`);
+    }
+
+    const hasInput = args.data !== undefined || args.folderCode !== undefined;
+    let prepared: { folderCode?: string; data: DataCardData } | undefined;
+    if (hasInput || !pending) {
+      const { prepared: input } = await prepareWriteInput(templateInfo, { folderCode: args.folderCode, data: args.data });
+      if (!input.folderCode && Object.keys(input.data || {}).length === 0) {
+        throw new ValidationError('Nothing to update: give the attributes to set in data or a folderCode');
+      }
+      prepared = { folderCode: input.folderCode, data: input.data || {} };
+    }
+
+    const hasFilter = args.filter !== undefined || args.where !== undefined;
+    const resolved = hasFilter || !pending ? resolveBulkFilter(templateInfo, args.filter, args.where) : { filter: pending.filter, warnings: [] };
+    const filter = resolved.filter;
+
+    if (!pending) {
+      return await previewFilterUpdate(args, templateInfo, filter, prepared!, resolved.warnings);
+    }
+
+    if (filter !== pending.filter) {
+      throw new ConflictError('Filter does not match the previewed update. Run the preview again to update different data cards');
+    }
+    if (prepared && (JSON.stringify(prepared.data) !== JSON.stringify(pending.data) || prepared.folderCode !== pending.folderCode)) {
+      throw new ConflictError('Data does not match the previewed update. Run the preview again to apply different changes');
+    }
+
+    // Tokens are single-use
+    pendingUpdateCache.delete(args.confirmationToken!);
+    return await applyFilterUpdate(pending, templateInfo, args);
+  } catch (error: unknown) {
+    logger.error('Bulk update by filter failed', error);
+    throw withContext(error, 'Failed to run bulk update by filter');
+  }
+}
+
+export const tools = {
+  efecte_bulk_datacards: bulkDataCards,
+  efecte_bulk_update_by_filter: bulkUpdateByFilter,
+};
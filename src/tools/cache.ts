@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError, withContext } from '../utils/errors.js';
+import { listCaches } from '../utils/cache.js';
+import { templateRegistry } from '../utils/template-registry.js';
+import { invalidateReferenceCards } from '../utils/reference-attributes.js';
+import { validateTemplateCode } from '../utils/validation.js';
+
+const CacheStatusSchema = z.object({
+  name: z.string().optional().describe('Only this cache'),
+  includeEntries: z.boolean().optional().default(false).describe('List cached keys with their age'),
+});
+
+const CacheInvalidateSchema = z.object({
+  scope: z.enum(['template', 'reference-values', 'all']).describe('What to invalidate'),
+  templateCode: z.string().optional().describe('Template to invalidate; all templates of the scope if omitted'),
+});
+
+export function registerCacheTools() {
+  return [
+    {
+      name: 'efecte_cache_status',
+      description: 'Show the caches of this server for the selected instance: storage, number of entries, entry ages, hits, misses, hit ratio, evictions (expired entries) and invalidations. Counters cover the lifetime of this server process.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Only this cache (e.g. "templates", "reference-values")' },
+          includeEntries: { type: 'boolean', default: false, description: 'List cached keys with their age and remaining lifetime' },
+        },
+      },
+    },
+    {
+      name: 'efecte_cache_invalidate',
+      description: 'Drop cached data so the next request fetches it fresh from Efecte, e.g. after templates or reference data (CMDB) changed. Scope "template" drops a template definition (or all templates and the template list), "reference-values" drops the cached data card names of a reference template (or of all templates), "all" clears every data cache. Only the selected instance is affected. The authentication token and pending bulk update confirmations are kept.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['template', 'reference-values', 'all'], description: 'What to invalidate' },
+          templateCode: { type: 'string', description: 'Template to invalidate (for scope "template": the template itself, for "reference-values": the referenced template, e.g. "person"). All templates of the scope if omitted' },
+        },
+        required: ['scope'],
+      },
+    },
+  ];
+}
+
+async function cacheStatus(args: z.infer<typeof CacheStatusSchema>) {
+  try {
+    const caches = listCaches().filter(cache => !args.name || cache.name === args.name);
+    if (args.name && caches.length === 0) {
+      throw new NotFoundError(`Unknown cache "${args.name}". Available caches: ${listCaches().map(cache => cache.name).join(', ')}`);
+    }
+
+    return {
+      caches: caches.map(cache => ({
+        ...cache.stats(),
+        ...(args.includeEntries && { entries: cache.describeEntries() }),
+      })),
+    };
+  } catch (error: unknown) {
+    logger.error('Cache status failed', error);
+    throw withContext(error, 'Failed to get cache status');
+  }
+}
+
+async function cacheInvalidate(args: z.infer<typeof CacheInvalidateSchema>) {
+  try {
+    if (args.templateCode) {
+      validateTemplateCode(args.templateCode);
+    }
+
+    let removed: number;
+    switch (args.scope) {
+      case 'template':
+        removed = templateRegistry.invalidate(args.templateCode);
+        break;
+      case 'reference-values':
+        removed = invalidateReferenceCards(args.templateCode);
+        break;
+      case 'all':
+        removed = 0;
+        for (const cache of listCaches().filter(cache => !cache.memoryOnly)) {
+          removed += cache.size();
+          cache.clear();
+        }
+        break;
+      default:
+        throw new ValidationError(`Invalid scope "${args.scope}", expected template, reference-values or all`);
+    }
+
+    logger.info(`Cache invalidated (scope: ${args.scope}${args.templateCode ? `, template: ${args.templateCode}` : ''}), ${removed} entries removed`);
+    return {
+      success: true,
+      scope: args.scope,
+      ...(args.templateCode && { templateCode: args.templateCode }),
+      removedEntries: removed,
+    };
+  } catch (error: unknown) {
+    logger.error('Cache invalidate failed', error);
+    throw withContext(error, 'Failed to invalidate cache');
+  }
+}
+
+export const tools = {
+  efecte_cache_status: cacheStatus,
+  efecte_cache_invalidate: cacheInvalidate,
+};
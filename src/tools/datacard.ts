@@ -1,26 +1,35 @@
 import { z } from 'zod';
-import { apiClient } from '../api/client.js';
+import { getApiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
+import { ValidationError, ConflictError, withContext } from '../utils/errors.js';
 import { efecteConfig } from '../utils/config.js';
 import { validateTemplateCode, validateDataCardId, validateAttributeCode, validateNonEmpty } from '../utils/validation.js';
+import { isBadRequestError, findSimilarMatch } from '../utils/reference-attributes.js';
+import { templateRegistry } from '../utils/template-registry.js';
 import {
-  extractReferenceAttributeFromFilter,
-  getReferenceTemplateCode,
-  listReferenceValues,
-  findSimilarMatch,
-  isBadRequestError,
-} from '../utils/reference-attributes.js';
+  suggestFilterCorrections,
+  formatFilterSuggestions,
+  isAutoCorrectable,
+  FilterAnalysis,
+  FilterSuggestion,
+} from '../utils/filter-suggestions.js';
 import {
-  getTextFieldsFromTemplate,
   getCommonTextFields,
   filterDataCardsByText,
 } from '../utils/search.js';
+import { walkPages, encodeCursor, decodeCursor, PageParams } from '../utils/pagination.js';
+import { validateEql, describeEqlIssues, isBlockingEqlIssue, compileWhere, EqlFilterCondition, EqlIssue } from '../utils/eql.js';
+import { DataCardData, ResolvedReference } from '../utils/datacard-input.js';
+import { prepareWriteInput, splitClearedAttributes, postDataCard, patchDataCard, trashDataCard } from '../utils/datacard-write.js';
+import { diffDataCard } from '../utils/datacard-diff.js';
+import { recordChange, JournalAction } from '../utils/journal.js';
+import { hasConcurrencyGuard, prepareConcurrencyGuard, checkConcurrency, describeConflict } from '../utils/conflict.js';
+import { buildDryRunResult, describeValues, AttributeChange } from '../utils/dry-run.js';
+import { flattenDataCard, flattenDataCardList, flattenElement, DataCardFormat } from '../utils/flatten.js';
 import { RESTTemplateInfo } from '../types/efecte.js';
-import { Cache } from '../utils/cache.js';
 import {
   RESTPaginatedDataCardsInfo,
   RESTDataCard,
-  RESTDataCardResponse,
   RESTDataCardCreateRequest,
   RESTDataCardModifyRequest,
   ApiResponse,
@@ -28,8 +37,50 @@ import {
   RESTValueElement,
 } from '../types/efecte.js';
 
-// Cache for template info used in search
-const templateInfoCache = new Cache<RESTTemplateInfo>('template-info-search');
+// Default cap on the number of data cards collected by a single fetchAll call
+const DEFAULT_MAX_ITEMS = 1000;
+
+// JSON schema shared by all tools accepting a structured `where` condition
+const WHERE_PROPERTY = {
+  type: 'object',
+  description: 'Structured filter, alternative to the EQL "filter" string. Compiled to EQL using the template definition so values are quoted and formatted correctly. ' +
+    'A condition is either {"and": [conditions]}, {"or": [conditions]}, {"not": condition} or {"attribute": "<code>", "op": "<op>", "value": <value>} ' +
+    'where op is one of eq, ne, gt, gte, lt, lte, in (array value), contains, isEmpty (no value). ' +
+    'Static values may be given by code or name, reference attributes by the name of the referenced data card, dates as ISO strings. ' +
+    'Example: {"and": [{"attribute": "status", "op": "eq", "value": "02 - Solving"}, {"attribute": "created", "op": "gt", "value": "2025-01-01"}]}',
+};
+
+// JSON schema shared by all tools returning data cards
+const FORMAT_PROPERTY = {
+  type: 'string',
+  enum: ['raw', 'flat'],
+  default: 'raw',
+  description: 'Response format. "raw" returns the nested Efecte structure, "flat" renders each attribute as a scalar or array of human-readable values (static value names, reference names, dates, numbers, worklog entries) to save context',
+};
+
+// JSON schema shared by all mutating tools
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  default: false,
+  description: 'Validate the input, resolve references and fetch the current state, then return the exact request and a before/after view of the affected attributes without writing anything',
+};
+
+// JSON schema shared by tools whose POST/PATCH may be retried
+const IDEMPOTENCY_KEY_PROPERTY = {
+  type: 'string',
+  description: 'Unique key for this write, e.g. a UUID. Sent as Idempotency-Key header and lets the request be retried after timeouts and server errors; use a new key for every distinct write',
+};
+
+// JSON schemas shared by tools guarding against concurrent modification
+const EXPECTED_VALUES_PROPERTY = {
+  type: 'object',
+  description: 'Attribute values as last read (raw or flat, e.g. { "status": "02 - Solving" }). The data card is re-read right before writing and nothing is written if any of them changed; the conflict report lists expected and current values',
+};
+
+const IF_UNMODIFIED_SINCE_PROPERTY = {
+  type: 'string',
+  description: 'ISO 8601 timestamp of the last read. The data card is re-read right before writing and nothing is written if its "updated" attribute is later',
+};
 
 /**
  * Schema for listing data cards with pagination and filtering
@@ -37,11 +88,17 @@ const templateInfoCache = new Cache<RESTTemplateInfo>('template-info-search');
 const ListDataCardsSchema = z.object({
   templateCode: z.string().describe('Template code to fetch data cards for'),
   filter: z.string().optional().describe('EQL filter expression. Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\''),
+  where: z.custom<EqlFilterCondition>().optional().describe('Structured filter compiled to EQL (alternative to filter)'),
   dataCards: z.boolean().optional().default(false).describe('Whether to get full data cards or simple info'),
   selectedAttributes: z.string().optional().describe('Comma-separated list of attributes to return'),
   limit: z.number().optional().default(50).describe('Page size limit (1-200)'),
   filterId: z.number().optional().describe('Only show data cards with IDs lower than this'),
   summary: z.boolean().optional().default(false).describe('Return summary with key fields only (useful for large responses)'),
+  fetchAll: z.boolean().optional().default(false).describe('Follow pagination until all matching data cards are fetched or maxItems is reached'),
+  maxItems: z.number().optional().describe('Maximum number of data cards to collect when fetchAll is enabled'),
+  cursor: z.string().optional().describe('Cursor returned by a previous fetchAll call to continue where it stopped'),
+  autoCorrect: z.boolean().optional().default(false).describe('Retry with suggested corrections when the filter contains unknown attributes or static values'),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
 });
 
 /**
@@ -51,6 +108,7 @@ const GetDataCardSchema = z.object({
   templateCode: z.string().describe('Template code'),
   dataCardId: z.string().describe('Data card ID'),
   selectedAttributes: z.string().optional().describe('Comma-separated list of attributes to return'),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
 });
 
 /**
@@ -59,11 +117,11 @@ const GetDataCardSchema = z.object({
 const CreateDataCardSchema = z.object({
   templateCode: z.string().describe('Template code'),
   folderCode: z.string().describe('Folder code'),
-  data: z.record(z.string(), z.object({
-    values: z.array(z.any()),
-  })).optional().describe('Data card attributes'),
+  data: z.record(z.string(), z.any()).optional().describe('Data card attributes in raw ({ values: [...] }) or flat format'),
   createEmptyReferences: z.string().optional(),
   dataCards: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
+  idempotencyKey: z.string().optional().describe('Unique key making the request retryable'),
 });
 
 /**
@@ -73,11 +131,24 @@ const UpdateDataCardSchema = z.object({
   templateCode: z.string().describe('Template code'),
   dataCardId: z.string().describe('Data card ID'),
   folderCode: z.string().optional().describe('Folder code'),
-  data: z.record(z.string(), z.object({
-    values: z.array(z.any()),
-  })).optional().describe('Data card attributes to update'),
+  data: z.record(z.string(), z.any()).optional().describe('Data card attributes to update in raw ({ values: [...] }) or flat format'),
   createEmptyReferences: z.string().optional(),
   dataCards: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
+  idempotencyKey: z.string().optional().describe('Unique key making the request retryable'),
+  includeDiff: z.boolean().optional().default(false).describe('Include a field-level diff against the current data card'),
+  expectedValues: z.record(z.string(), z.any()).optional().describe('Attribute values as last read; the update is aborted if they changed'),
+  ifUnmodifiedSince: z.string().optional().describe('Abort the update if the data card was updated after this timestamp'),
+});
+
+/**
+ * Schema for comparing proposed changes against the current data card
+ */
+const DiffDataCardSchema = z.object({
+  templateCode: z.string().describe('Template code'),
+  dataCardId: z.string().describe('Data card ID'),
+  folderCode: z.string().optional().describe('Proposed folder code'),
+  data: z.record(z.string(), z.any()).optional().describe('Proposed attributes in raw ({ values: [...] }) or flat format'),
 });
 
 /**
@@ -86,6 +157,7 @@ const UpdateDataCardSchema = z.object({
 const DeleteDataCardSchema = z.object({
   templateCode: z.string().describe('Template code'),
   dataCardId: z.string().describe('Data card ID'),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
 });
 
 /**
@@ -95,6 +167,7 @@ const GetAttributeSchema = z.object({
   templateCode: z.string().describe('Template code'),
   dataCardId: z.string().describe('Data card ID'),
   attributeCode: z.string().describe('Attribute code'),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
 });
 
 /**
@@ -105,6 +178,9 @@ const UpdateAttributeSchema = z.object({
   dataCardId: z.string().describe('Data card ID'),
   attributeCode: z.string().describe('Attribute code'),
   values: z.array(z.any()).describe('New values for the attribute (replaces existing values)'),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
+  expectedValues: z.record(z.string(), z.any()).optional().describe('Attribute values as last read; the update is aborted if they changed'),
+  ifUnmodifiedSince: z.string().optional().describe('Abort the update if the data card was updated after this timestamp'),
 });
 
 /**
@@ -115,6 +191,7 @@ const AddAttributeValueSchema = z.object({
   dataCardId: z.string().describe('Data card ID'),
   attributeCode: z.string().describe('Attribute code'),
   values: z.array(z.any()).describe('Values to add to the attribute (for multi-value attributes)'),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
 });
 
 /**
@@ -124,6 +201,7 @@ const DeleteAttributeValueSchema = z.object({
   templateCode: z.string().describe('Template code'),
   dataCardId: z.string().describe('Data card ID'),
   attributeCode: z.string().describe('Attribute code to clear'),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the request without writing'),
 });
 
 /**
@@ -132,9 +210,11 @@ const DeleteAttributeValueSchema = z.object({
 const MultiTemplateSearchSchema = z.object({
   templateCodes: z.array(z.string()).min(1).describe('Array of template codes to search across'),
   filter: z.string().optional().describe('EQL filter expression (applied to all templates). Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\''),
+  where: z.custom<EqlFilterCondition>().optional().describe('Structured filter compiled to EQL per template (alternative to filter)'),
   dataCards: z.boolean().optional().default(false).describe('Whether to get full data cards or simple info'),
   selectedAttributes: z.string().optional().describe('Comma-separated list of attributes to return'),
   limit: z.number().optional().default(50).describe('Page size limit per template (1-200)'),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
 });
 
 /**
@@ -143,8 +223,19 @@ const MultiTemplateSearchSchema = z.object({
 const StreamDataCardsSchema = z.object({
   templateCode: z.string().describe('Template code'),
   filter: z.string().optional().describe('EQL filter expression. Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\''),
+  where: z.custom<EqlFilterCondition>().optional().describe('Structured filter compiled to EQL (alternative to filter)'),
   dataCards: z.boolean().optional().default(false),
   selectedAttributes: z.string().optional(),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
+});
+
+/**
+ * Schema for validating an EQL filter locally
+ */
+const ValidateFilterSchema = z.object({
+  templateCode: z.string().describe('Template code the filter is meant for'),
+  filter: z.string().optional().describe('EQL filter expression to validate'),
+  where: z.custom<EqlFilterCondition>().optional().describe('Structured filter to compile and validate'),
 });
 
 /**
@@ -156,6 +247,7 @@ const SearchDataCardsSchema = z.object({
   searchFields: z.array(z.string()).optional().describe('Optional array of specific field names to search. If not provided, searches all text fields in the template'),
   limit: z.number().optional().default(200).describe('Maximum number of data cards to fetch before filtering (1-200)'),
   dataCards: z.boolean().optional().default(true).describe('Whether to return full data cards or simple info'),
+  format: z.enum(['raw', 'flat']).optional().default('raw').describe('Response format'),
 });
 
 export function registerDataCardTools() {
@@ -168,11 +260,17 @@ export function registerDataCardTools() {
         properties: {
           templateCode: { type: 'string', description: 'Template code to fetch data cards for' },
           filter: { type: 'string', description: 'EQL filter expression. Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\', $created$ > \'2025-01-01\', $status$ = \'02 - Solving\' AND $priority$ = \'2. High\'' },
+          where: WHERE_PROPERTY,
           dataCards: { type: 'boolean', description: 'Whether to get full data cards', default: false },
           selectedAttributes: { type: 'string', description: 'Comma-separated list of attributes' },
           limit: { type: 'number', description: 'Page size limit (1-200)', default: 50, minimum: 1, maximum: 200 },
           filterId: { type: 'number', description: 'Only show data cards with IDs lower than this' },
           summary: { type: 'boolean', description: 'Return summary with key fields only (useful for large responses)', default: false },
+          fetchAll: { type: 'boolean', description: 'Follow pagination automatically until all matching data cards are fetched or maxItems is reached. When the cap is hit, meta.cursor can be passed back to continue.', default: false },
+          maxItems: { type: 'number', description: `Maximum number of data cards to collect when fetchAll is enabled (default: ${DEFAULT_MAX_ITEMS})`, minimum: 1 },
+          cursor: { type: 'string', description: 'Cursor from meta.cursor of a previous fetchAll call. Continues exactly where that call stopped (filter and other query options are taken from the cursor).' },
+          autoCorrect: { type: 'boolean', description: 'When the filter contains unknown attribute codes or invalid static values, retry with the closest matches. The applied changes are reported in autoCorrected. Unknown reference names are only suggested, never replaced.', default: false },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCode'],
       },
@@ -186,49 +284,75 @@ export function registerDataCardTools() {
           templateCode: { type: 'string', description: 'Template code' },
           dataCardId: { type: 'string', description: 'Data card ID' },
           selectedAttributes: { type: 'string', description: 'Comma-separated list of attributes' },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCode', 'dataCardId'],
       },
     },
     {
       name: 'efecte_create_datacard',
-      description: 'Create a new data card',
+      mutating: true,
+      description: 'Create a new data card. Input is validated against the template: unknown attributes, multiple values for single-value attributes, invalid static values and folders not allowed for the template are rejected. Values may be plain strings, numbers, ISO dates, static value codes/names or reference names/IDs and are converted to the required format.',
       inputSchema: {
         type: 'object',
         properties: {
           templateCode: { type: 'string', description: 'Template code' },
-          folderCode: { type: 'string', description: 'Folder code' },
-          data: { type: 'object', description: 'Data card attributes' },
+          folderCode: { type: 'string', description: 'Folder code (or folder name) from the template\'s allowed folders' },
+          data: { type: 'object', description: 'Data card attributes, either raw as { "<attribute>": { "values": [...] } } or flat as { "<attribute>": value or [values] } (the format returned with format: "flat"). Values can be plain strings, numbers, ISO dates, static value codes or names, reference names or data card IDs.' },
           createEmptyReferences: { type: 'string' },
           dataCards: { type: 'boolean', default: false },
+          dryRun: DRY_RUN_PROPERTY,
+          idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
         },
         required: ['templateCode', 'folderCode'],
       },
     },
     {
       name: 'efecte_update_datacard',
-      description: 'Update an existing data card',
+      mutating: true,
+      description: 'Update an existing data card. Input is validated and converted against the template like in efecte_create_datacard.',
       inputSchema: {
         type: 'object',
         properties: {
           templateCode: { type: 'string', description: 'Template code' },
           dataCardId: { type: 'string', description: 'Data card ID' },
-          folderCode: { type: 'string', description: 'Folder code' },
-          data: { type: 'object', description: 'Data card attributes to update' },
+          folderCode: { type: 'string', description: 'Folder code (or folder name) from the template\'s allowed folders' },
+          data: { type: 'object', description: 'Data card attributes to update, raw as { "<attribute>": { "values": [...] } } or flat as { "<attribute>": value or [values] }. Values are converted like in efecte_create_datacard.' },
           createEmptyReferences: { type: 'string' },
           dataCards: { type: 'boolean', default: false },
+          dryRun: DRY_RUN_PROPERTY,
+          idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
+          includeDiff: { type: 'boolean', default: false, description: 'Fetch the current data card first and include a field-level diff (see efecte_diff_datacard) in the response' },
+          expectedValues: EXPECTED_VALUES_PROPERTY,
+          ifUnmodifiedSince: IF_UNMODIFIED_SINCE_PROPERTY,
+        },
+        required: ['templateCode', 'dataCardId'],
+      },
+    },
+    {
+      name: 'efecte_diff_datacard',
+      description: 'Compare proposed changes against the current data card without writing. Input is validated and converted like in efecte_update_datacard. Returns per attribute the added and removed values in raw and human-readable form, the values before and after, and the attributes that would not change.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          templateCode: { type: 'string', description: 'Template code' },
+          dataCardId: { type: 'string', description: 'Data card ID' },
+          folderCode: { type: 'string', description: 'Proposed folder code (or folder name)' },
+          data: { type: 'object', description: 'Proposed attributes, raw as { "<attribute>": { "values": [...] } } or flat as { "<attribute>": value or [values] }' },
         },
         required: ['templateCode', 'dataCardId'],
       },
     },
     {
       name: 'efecte_delete_datacard',
+      mutating: true,
       description: 'Delete a data card (move to trash)',
       inputSchema: {
         type: 'object',
         properties: {
           templateCode: { type: 'string', description: 'Template code' },
           dataCardId: { type: 'string', description: 'Data card ID' },
+          dryRun: DRY_RUN_PROPERTY,
         },
         required: ['templateCode', 'dataCardId'],
       },
@@ -242,13 +366,15 @@ export function registerDataCardTools() {
           templateCode: { type: 'string', description: 'Template code' },
           dataCardId: { type: 'string', description: 'Data card ID' },
           attributeCode: { type: 'string', description: 'Attribute code' },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCode', 'dataCardId', 'attributeCode'],
       },
     },
     {
       name: 'efecte_update_attribute',
-      description: 'Update a specific attribute value in a data card (replaces existing values)',
+      mutating: true,
+      description: 'Update a specific attribute value in a data card (replaces existing values). Values are validated and converted like in efecte_create_datacard.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -256,13 +382,17 @@ export function registerDataCardTools() {
           dataCardId: { type: 'string', description: 'Data card ID' },
           attributeCode: { type: 'string', description: 'Attribute code' },
           values: { type: 'array', description: 'New values for the attribute (replaces existing)', items: {} },
+          dryRun: DRY_RUN_PROPERTY,
+          expectedValues: EXPECTED_VALUES_PROPERTY,
+          ifUnmodifiedSince: IF_UNMODIFIED_SINCE_PROPERTY,
         },
         required: ['templateCode', 'dataCardId', 'attributeCode', 'values'],
       },
     },
     {
       name: 'efecte_add_attribute_value',
-      description: 'Add value(s) to a multi-value attribute in a data card (appends to existing values)',
+      mutating: true,
+      description: 'Add value(s) to a multi-value attribute in a data card (appends to existing values). Values are validated and converted like in efecte_create_datacard.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -270,12 +400,14 @@ export function registerDataCardTools() {
           dataCardId: { type: 'string', description: 'Data card ID' },
           attributeCode: { type: 'string', description: 'Attribute code' },
           values: { type: 'array', description: 'Values to add to the attribute', items: {} },
+          dryRun: DRY_RUN_PROPERTY,
         },
         required: ['templateCode', 'dataCardId', 'attributeCode', 'values'],
       },
     },
     {
       name: 'efecte_delete_attribute_value',
+      mutating: true,
       description: 'Delete/clear an attribute value from a data card',
       inputSchema: {
         type: 'object',
@@ -283,6 +415,7 @@ export function registerDataCardTools() {
           templateCode: { type: 'string', description: 'Template code' },
           dataCardId: { type: 'string', description: 'Data card ID' },
           attributeCode: { type: 'string', description: 'Attribute code to clear' },
+          dryRun: DRY_RUN_PROPERTY,
         },
         required: ['templateCode', 'dataCardId', 'attributeCode'],
       },
@@ -300,9 +433,11 @@ export function registerDataCardTools() {
             minItems: 1,
           },
           filter: { type: 'string', description: 'EQL filter expression (applied to all templates). Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\', $created$ > \'2025-01-01\', $status$ = \'02 - Solving\' AND $priority$ = \'2. High\'' },
+          where: WHERE_PROPERTY,
           dataCards: { type: 'boolean', description: 'Whether to get full data cards', default: false },
           selectedAttributes: { type: 'string', description: 'Comma-separated list of attributes' },
           limit: { type: 'number', description: 'Page size limit per template (1-200)', default: 50, minimum: 1, maximum: 200 },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCodes'],
       },
@@ -315,8 +450,10 @@ export function registerDataCardTools() {
         properties: {
           templateCode: { type: 'string', description: 'Template code' },
           filter: { type: 'string', description: 'EQL filter expression. Use $attribute_name$ syntax for attributes. Examples: $status$ = \'02 - Solving\', $support_group$ = \'IT Support\', $customer$ = \'John Doe\', $created$ > \'2025-01-01\', $status$ = \'02 - Solving\' AND $priority$ = \'2. High\'' },
+          where: WHERE_PROPERTY,
           dataCards: { type: 'boolean', description: 'Whether to get full data cards', default: false },
           selectedAttributes: { type: 'string', description: 'Comma-separated list of attributes' },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCode'],
       },
@@ -336,10 +473,24 @@ export function registerDataCardTools() {
           },
           limit: { type: 'number', description: 'Maximum number of data cards to fetch before filtering (1-200)', default: 200, minimum: 1, maximum: 200 },
           dataCards: { type: 'boolean', description: 'Whether to return full data cards', default: true },
+          format: FORMAT_PROPERTY,
         },
         required: ['templateCode', 'query'],
       },
     },
+    {
+      name: 'efecte_validate_filter',
+      description: 'Validate an EQL filter locally without querying data cards. Checks syntax, verifies every $attribute$ exists in the template, and checks static values, numbers and dates against the template definition. Returns issues with their kind and character positions and the normalized filter. Only unknown_attribute and invalid_value issues stop list and stream calls; syntax and format issues may be EQL the local check does not know and are left to the server. Alternatively compiles a structured "where" condition and returns the resulting EQL.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          templateCode: { type: 'string', description: 'Template code the filter is meant for' },
+          filter: { type: 'string', description: 'EQL filter expression to validate' },
+          where: WHERE_PROPERTY,
+        },
+        required: ['templateCode'],
+      },
+    },
   ];
 }
 
@@ -402,96 +553,279 @@ function estimateResponseSize(data: any): number {
 }
 
 /**
- * List data cards for a specific template with pagination and filtering
- * @param args - List data cards parameters
- * @returns Paginated list of data cards
+ * Load the template definition used for the flat format, or null if it is unavailable
+ * Flattening works without it, but cannot tell single-value from multi-value attributes then
  */
-async function listDataCards(args: z.infer<typeof ListDataCardsSchema>) {
+async function getTemplateInfoForFormat(templateCode: string): Promise<RESTTemplateInfo | null> {
   try {
-    validateTemplateCode(args.templateCode);
-    const limit = Math.min(Math.max(args.limit || efecteConfig.pagination.defaultLimit, 1), efecteConfig.pagination.maxLimit);
-    
-    const params: Record<string, string | number | boolean> = { limit };
-    if (args.filter) {
-      logger.debug(`Applying EQL filter: ${args.filter}`);
-      params.filter = args.filter;
+    return await templateRegistry.get(templateCode);
+  } catch (error) {
+    logger.debug(`Could not load template ${templateCode} for flat format`, error);
+    return null;
+  }
+}
+
+/**
+ * Render a paginated result in the requested format
+ */
+async function formatDataCardList(result: RESTPaginatedDataCardsInfo, templateCode: string, format?: DataCardFormat) {
+  if (format !== 'flat') {
+    return result;
+  }
+  return flattenDataCardList(result, await getTemplateInfoForFormat(templateCode));
+}
+
+/**
+ * Correction applied to a filter by autoCorrect
+ */
+interface AppliedFilterCorrection {
+  originalFilter: string;
+  correctedFilter: string;
+  changes: Array<{ kind: FilterSuggestion['kind']; attribute: string; from: string; to: string }>;
+}
+
+function toAppliedCorrection(filter: string, analysis: FilterAnalysis): AppliedFilterCorrection {
+  return {
+    originalFilter: filter,
+    correctedFilter: analysis.correctedFilter!,
+    changes: analysis.suggestions.filter(isAutoCorrectable).map(suggestion => ({
+      kind: suggestion.kind,
+      attribute: suggestion.attribute,
+      from: suggestion.original,
+      to: suggestion.suggestion!,
+    })),
+  };
+}
+
+/**
+ * Validate an EQL filter before sending it to the API
+ * Attributes and values are checked when the template definition is available. Only unknown attributes and
+ * static values stop the request; syntax and value formats the local parser does not recognise are left to
+ * the server and returned as warnings.
+ * With autoCorrect, unknown attributes and static values are replaced by their closest match.
+ * @returns Correction applied to the filter (null if the filter is used as given) and the non-blocking issues
+ * @throws ValidationError listing the blocking issues with their positions and suggestions
+ */
+async function preflightFilter(
+  templateCode: string,
+  filter: string,
+  autoCorrect: boolean = false
+): Promise<{ correction: AppliedFilterCorrection | null; warnings: EqlIssue[] }> {
+  let templateInfo: RESTTemplateInfo | undefined;
+  try {
+    templateInfo = await templateRegistry.get(templateCode);
+  } catch (error) {
+    logger.debug(`Could not load template ${templateCode} for filter validation, checking syntax only`, error);
+  }
+
+  const result = validateEql(filter, templateInfo);
+  const warnings = result.issues.filter(issue => !isBlockingEqlIssue(issue));
+  if (warnings.length > 0) {
+    logger.warn(`Sending filter for ${templateCode} with issues the local check cannot decide:\n${describeEqlIssues(filter, warnings)}`);
+  }
+  const blocking = result.issues.filter(isBlockingEqlIssue);
+  if (blocking.length === 0) {
+    return { correction: null, warnings };
+  }
+
+  let errorMessage = `Invalid EQL filter:\n${describeEqlIssues(filter, blocking)}`;
+
+  if (templateInfo) {
+    const analysis = await suggestFilterCorrections(filter, templateCode);
+    if (autoCorrect && analysis.correctedFilter && !validateEql(analysis.correctedFilter, templateInfo).issues.some(isBlockingEqlIssue)) {
+      logger.info(`Auto-corrected filter for ${templateCode}: ${analysis.correctedFilter}`);
+      return { correction: toAppliedCorrection(filter, analysis), warnings };
     }
-    if (args.dataCards !== undefined) params.dataCards = args.dataCards;
-    if (args.selectedAttributes) params.selectedAttributes = args.selectedAttributes;
-    if (args.filterId) params.filterId = args.filterId;
+    const hints = analysis.suggestions.filter(suggestion => suggestion.suggestion);
+    if (hints.length > 0) {
+      errorMessage += `\n\n${formatFilterSuggestions(hints)}`;
+    }
+  }
+
+  throw new ValidationError(errorMessage);
+}
+
+/**
+ * Resolve the EQL filter for a template from either an EQL string or a structured where condition
+ * @returns EQL filter (undefined if neither is given), the correction applied by autoCorrect, if any,
+ *          and the issues left to the server
+ */
+async function resolveFilter(
+  templateCode: string,
+  filter: string | undefined,
+  where: EqlFilterCondition | undefined,
+  autoCorrect: boolean = false
+): Promise<{ filter?: string; correction: AppliedFilterCorrection | null; warnings: EqlIssue[] }> {
+  if (filter && where) {
+    throw new ValidationError('Provide either filter or where, not both');
+  }
+
+  if (where) {
+    const templateInfo = await templateRegistry.get(templateCode);
+    const compiled = compileWhere(where, templateInfo);
+    logger.debug(`Compiled where condition for ${templateCode} to EQL: ${compiled}`);
+    return { filter: compiled, correction: null, warnings: [] };
+  }
+
+  if (filter) {
+    const { correction, warnings } = await preflightFilter(templateCode, filter, autoCorrect);
+    return { filter: correction ? correction.correctedFilter : filter, correction, warnings };
+  }
+  return { filter, correction: null, warnings: [] };
+}
+
+/**
+ * Fetch pages for a template until exhausted or maxItems is reached
+ * Returns the combined items with a cursor in meta when more data is available
+ */
+async function fetchAllDataCards(
+  templateCode: string,
+  start: { params: PageParams; skip: number },
+  maxItems: number
+): Promise<RESTPaginatedDataCardsInfo> {
+  const walked = await walkPages(
+    (params) => getApiClient().get<RESTPaginatedDataCardsInfo>(`dc/${templateCode}/data`, { params }),
+    start,
+    maxItems
+  );
+
+  logger.info(`Fetched ${walked.data.length} data cards from ${walked.pagesFetched} page(s) of ${templateCode}`);
+
+  return {
+    meta: {
+      count: walked.data.length,
+      limit: Number(start.params.limit),
+      pagesFetched: walked.pagesFetched,
+      hasMore: walked.next !== null,
+      ...(walked.next && {
+        cursor: encodeCursor({ templateCode, params: walked.next.params, skip: walked.next.skip }),
+      }),
+    },
+    data: walked.data,
+  };
+}
+
+/**
+ * Fetch data cards for a resolved filter (single page or all pages) and summarize large responses
+ */
+async function queryDataCards(args: z.infer<typeof ListDataCardsSchema>, filter: string | undefined) {
+  const limit = Math.min(Math.max(args.limit || efecteConfig.pagination.defaultLimit, 1), efecteConfig.pagination.maxLimit);
+
+  const params: PageParams = { limit };
+  if (filter) {
+    logger.debug(`Applying EQL filter: ${filter}`);
+    params.filter = filter;
+  }
+  if (args.dataCards !== undefined) params.dataCards = args.dataCards;
+  if (args.selectedAttributes) params.selectedAttributes = args.selectedAttributes;
+  if (args.filterId) params.filterId = args.filterId;
 
-    const result = await apiClient.get<RESTPaginatedDataCardsInfo>(
+  let result: RESTPaginatedDataCardsInfo;
+  if (args.cursor || args.fetchAll) {
+    const maxItems = Math.max(args.maxItems || DEFAULT_MAX_ITEMS, 1);
+    let start = { params, skip: 0 };
+    if (args.cursor) {
+      const cursor = decodeCursor(args.cursor);
+      if (cursor.templateCode !== args.templateCode) {
+        throw new ValidationError(`Cursor belongs to template ${cursor.templateCode}, not ${args.templateCode}`);
+      }
+      start = { params: cursor.params, skip: cursor.skip };
+    }
+    result = await fetchAllDataCards(args.templateCode, start, maxItems);
+  } else {
+    result = await getApiClient().get<RESTPaginatedDataCardsInfo>(
       `dc/${args.templateCode}/data`,
       { params }
     );
+  }
 
-    // Check response size and summarize if needed
-    const responseSize = estimateResponseSize(result);
-    const maxResponseSize = 200 * 1024; // 200KB threshold
-    
-    if ((args.summary || responseSize > maxResponseSize) && args.dataCards) {
-      logger.info(`Response size ${responseSize} bytes exceeds threshold or summary requested, summarizing...`);
-      return summarizeDataCards(result);
-    }
-    
-    return result;
+  // Check response size and summarize if needed
+  const responseSize = estimateResponseSize(result);
+  const maxResponseSize = 200 * 1024; // 200KB threshold
+
+  if ((args.summary || responseSize > maxResponseSize) && args.dataCards) {
+    logger.info(`Response size ${responseSize} bytes exceeds threshold or summary requested, summarizing...`);
+    result = summarizeDataCards(result);
+  }
+
+  return formatDataCardList(result, args.templateCode, args.format);
+}
+
+/**
+ * List data cards for a specific template with pagination and filtering
+ * When the API rejects the filter, every clause is checked for unknown attributes, static values
+ * and reference names. With autoCorrect, the request is retried once with the suggested corrections.
+ * @param args - List data cards parameters
+ * @returns Paginated list of data cards (with the applied correction when autoCorrect changed the filter)
+ */
+async function listDataCards(args: z.infer<typeof ListDataCardsSchema>) {
+  let filter = args.filter;
+  let correction: AppliedFilterCorrection | null = null;
+  let warnings: EqlIssue[] = [];
+  try {
+    validateTemplateCode(args.templateCode);
+
+    ({ filter, correction, warnings } = await resolveFilter(args.templateCode, args.filter, args.where, args.autoCorrect));
+
+    const result = await queryDataCards(args, filter);
+    return {
+      ...result,
+      ...(correction && { autoCorrected: correction }),
+      ...(warnings.length > 0 && { filterWarnings: warnings }),
+    };
   } catch (error: unknown) {
-    // Enhanced error handling for 400 errors with reference attributes
-    if (isBadRequestError(error) && args.filter) {
-      const filterInfo = extractReferenceAttributeFromFilter(args.filter);
-      
-      if (filterInfo) {
-        try {
-          // Try to get the reference template for this attribute
-          const referenceTemplateCode = await getReferenceTemplateCode(
-            filterInfo.attribute,
-            args.templateCode
-          );
-
-          if (referenceTemplateCode) {
-            // Get available values from the reference template
-            const availableValues = await listReferenceValues(referenceTemplateCode);
-            
-            if (availableValues.length > 0) {
-              // Try to find a similar match
-              const suggestion = findSimilarMatch(filterInfo.value, availableValues);
-              
-              // Build helpful error message
-              let errorMessage = `Filter failed: Invalid value "${filterInfo.value}" for attribute "${filterInfo.attribute}".\n\n`;
-              errorMessage += `Available ${filterInfo.attribute.replace(/_/g, ' ')}s:\n`;
-              availableValues.slice(0, 20).forEach(value => {
-                errorMessage += `- ${value}\n`;
-              });
-              if (availableValues.length > 20) {
-                errorMessage += `... and ${availableValues.length - 20} more\n`;
-              }
-              
-              if (suggestion) {
-                errorMessage += `\nDid you mean "${suggestion}"?`;
-              }
-              
-              logger.error('List data cards failed with invalid reference value', {
-                attribute: filterInfo.attribute,
-                attemptedValue: filterInfo.value,
-                availableValues: availableValues.length,
-                suggestion,
-              });
-              
-              throw new Error(errorMessage);
-            }
+    // Enhanced error handling for 400 errors: check every clause of the filter
+    if (isBadRequestError(error) && filter) {
+      let analysis: FilterAnalysis | null = null;
+      try {
+        analysis = await suggestFilterCorrections(filter, args.templateCode, { checkReferences: true });
+      } catch (analysisError) {
+        // If we can't analyze the filter, fall through to generic error
+        logger.debug('Failed to analyze filter for error message', analysisError);
+      }
+
+      if (analysis && analysis.suggestions.length > 0) {
+        if (args.autoCorrect && analysis.correctedFilter && !correction) {
+          logger.info(`Retrying list for ${args.templateCode} with corrected filter: ${analysis.correctedFilter}`);
+          const applied = toAppliedCorrection(filter, analysis);
+          try {
+            const result = await queryDataCards(args, applied.correctedFilter);
+            return { ...result, autoCorrected: applied };
+          } catch (retryError: unknown) {
+            logger.error('List data cards failed with corrected filter', retryError);
+            throw withContext(retryError, `Failed to list data cards with corrected filter "${applied.correctedFilter}"`);
           }
-        } catch (refError) {
-          // If we can't get reference values, fall through to generic error
-          logger.debug('Failed to get reference values for error message', refError);
         }
+
+        logger.error('List data cards failed with invalid filter values', {
+          filter,
+          problems: analysis.suggestions.length,
+          correctedFilter: analysis.correctedFilter,
+        });
+
+        let errorMessage = `Filter failed: ${analysis.suggestions.length} problem(s) found in filter "${filter}".\n\n`;
+        errorMessage += formatFilterSuggestions(analysis.suggestions);
+        if (analysis.correctedFilter) {
+          errorMessage += `\n\nCorrected filter: ${analysis.correctedFilter}\n(set autoCorrect: true to apply corrections automatically)`;
+        }
+        throw new ValidationError(errorMessage, error.errors, { status: error.status, cause: error });
       }
     }
 
+    // The server rejected a filter the local check could not decide on
+    if (isBadRequestError(error) && filter && warnings.length > 0) {
+      logger.error('List data cards failed with a filter the local check could not decide on', error);
+      throw new ValidationError(
+        `Failed to list data cards with filter "${filter}": ${error.message}\n\nLocal check:\n${describeEqlIssues(filter, warnings)}`,
+        error.errors,
+        { status: error.status, cause: error }
+      );
+    }
+
     // Generic error handling
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('List data cards failed', error);
-    const filterInfo = args.filter ? ` with filter "${args.filter}"` : '';
-    throw new Error(`Failed to list data cards${filterInfo}: ${errorMessage}`);
+    const filterInfo = filter ? ` with filter "${filter}"` : '';
+    throw withContext(error, `Failed to list data cards${filterInfo}`);
   }
 }
 
@@ -502,17 +836,44 @@ async function getDataCard(args: z.infer<typeof GetDataCardSchema>) {
     const params: Record<string, string> = {};
     if (args.selectedAttributes) params.selectedAttributes = args.selectedAttributes;
 
-    const result = await apiClient.get<RESTDataCard>(
+    const result = await getApiClient().get<RESTDataCard>(
       `dc/${args.templateCode}/data/${args.dataCardId}`,
       { params }
     );
     
+    if (args.format === 'flat') {
+      return flattenDataCard(result, await getTemplateInfoForFormat(args.templateCode));
+    }
     return result;
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Get data card failed', error);
-    throw new Error(`Failed to get data card: ${errorMessage}`);
+    throw withContext(error, 'Failed to get data card');
+  }
+}
+
+/**
+ * Validate and convert the values of a single attribute like create/update input
+ * @returns Prepared data containing only the given attribute, and the references resolved by name
+ */
+async function prepareAttributeValues(
+  templateInfo: RESTTemplateInfo,
+  attributeCode: string,
+  values: unknown[]
+): Promise<{ data: DataCardData; references: ResolvedReference[] }> {
+  const { prepared, references } = await prepareWriteInput(templateInfo, { data: { [attributeCode]: values } });
+  return { data: prepared.data!, references };
+}
+
+/**
+ * Reject attribute codes that are not defined in the template, suggesting the closest match
+ */
+function checkAttributeCode(templateInfo: RESTTemplateInfo, attributeCode: string): void {
+  if (templateInfo.attributes?.[attributeCode]) {
+    return;
   }
+  const suggestion = findSimilarMatch(attributeCode, Object.keys(templateInfo.attributes || {}));
+  const message = `Unknown attribute "${attributeCode}" in template ${templateInfo.code}.${suggestion ? ` Did you mean "${suggestion}"?` : ''}`;
+  throw new ValidationError(message, [{ attributeCode, message, error: 'unknown_attribute' }]);
 }
 
 async function createDataCard(args: z.infer<typeof CreateDataCardSchema>) {
@@ -523,22 +884,40 @@ async function createDataCard(args: z.infer<typeof CreateDataCardSchema>) {
     if (args.createEmptyReferences) params.createEmptyReferences = args.createEmptyReferences;
     if (args.dataCards !== undefined) params.dataCards = args.dataCards;
 
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const { prepared, references } = await prepareWriteInput(templateInfo, { folderCode: args.folderCode, data: args.data });
+
     const body: RESTDataCardCreateRequest = {
-      folderCode: args.folderCode,
-      data: args.data as { [key: string]: { values: RESTValueElement[] } } | undefined,
+      folderCode: prepared.folderCode!,
+      data: prepared.data,
     };
+    const path = `dc/${args.templateCode}/data`;
 
-    const result = await apiClient.post<RESTDataCardResponse>(
-      `dc/${args.templateCode}/data`,
-      body,
-      { params }
+    if (args.dryRun) {
+      const changes: Record<string, AttributeChange> = {};
+      for (const [attributeCode, element] of Object.entries(body.data || {})) {
+        changes[attributeCode] = {
+          before: describeValues([], attributeCode, templateInfo),
+          after: describeValues(element.values, attributeCode, templateInfo),
+        };
+      }
+      return buildDryRunResult(
+        `Would create a data card in template ${args.templateCode}, folder ${body.folderCode}`,
+        { method: 'POST', path, params, body },
+        changes,
+        references
+      );
+    }
+
+    const { result, entry, warnings } = await postDataCard(
+      { templateCode: args.templateCode, templateInfo, params, idempotencyKey: args.idempotencyKey },
+      body
     );
-    
-    return result;
+
+    return { ...result, changeId: entry.id, ...(warnings.length > 0 && { warnings }) };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Create data card failed', error);
-    throw new Error(`Failed to create data card: ${errorMessage}`);
+    throw withContext(error, 'Failed to create data card');
   }
 }
 
@@ -553,23 +932,86 @@ async function updateDataCard(args: z.infer<typeof UpdateDataCardSchema>) {
     if (args.createEmptyReferences) params.createEmptyReferences = args.createEmptyReferences;
     if (args.dataCards !== undefined) params.dataCards = args.dataCards;
 
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const { prepared, references } = await prepareWriteInput(templateInfo, { folderCode: args.folderCode, data: args.data });
+
+    const guard = { expectedValues: args.expectedValues, ifUnmodifiedSince: args.ifUnmodifiedSince };
+    const guarded = hasConcurrencyGuard(guard);
+    const expected = guarded ? prepareConcurrencyGuard(templateInfo, guard) : undefined;
+
+    // Attributes given as null or [] are cleared one by one, sending them without values does not reliably empty them
+    const { data, clear } = splitClearedAttributes(prepared.data);
     const body: RESTDataCardModifyRequest = {
       dataCardId: args.dataCardId,
-      folderCode: args.folderCode,
-      data: args.data as { [key: string]: { values: RESTValueElement[] } } | undefined,
+      folderCode: prepared.folderCode,
+      data,
     };
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}`;
+    // The current state is needed for the undo journal, diffs, previews and concurrency checks
+    const current = await getApiClient().get<RESTDataCard>(path);
 
-    const result = await apiClient.patch<RESTDataCardResponse>(
-      `dc/${args.templateCode}/data/${args.dataCardId}`,
+    if (guarded) {
+      const conflict = checkConcurrency(templateInfo, args.dataCardId, current, expected, args.ifUnmodifiedSince, Object.keys(prepared.data || {}));
+      if (conflict) {
+        throw new ConflictError(describeConflict(conflict), { details: conflict });
+      }
+    }
+
+    const diff = args.includeDiff ? diffDataCard(args.dataCardId, current, prepared, templateInfo) : undefined;
+
+    if (args.dryRun) {
+      const changes: Record<string, AttributeChange> = {};
+      if (body.folderCode && body.folderCode !== current.folderCode) {
+        changes.folderCode = { before: current.folderCode ?? null, after: body.folderCode };
+      }
+      for (const [attributeCode, element] of Object.entries(prepared.data || {})) {
+        const currentElement = current.data?.[attributeCode];
+        changes[attributeCode] = {
+          before: describeValues(currentElement?.values, attributeCode, templateInfo, currentElement?.type),
+          after: describeValues(element.values, attributeCode, templateInfo, currentElement?.type),
+        };
+      }
+      const preview = buildDryRunResult(
+        `Would update data card ${args.dataCardId}${current.name ? ` (${current.name})` : ''} in template ${args.templateCode}`,
+        { method: 'PATCH', path, params, body },
+        changes,
+        references
+      );
+      return diff ? { ...preview, diff } : preview;
+    }
+
+    const { result, entry, warnings } = await patchDataCard(
+      { templateCode: args.templateCode, templateInfo, params, idempotencyKey: args.idempotencyKey },
+      current,
       body,
-      { params }
+      clear
     );
-    
-    return result;
+
+    return { ...result, changeId: entry.id, ...(diff && { diff }), ...(warnings.length > 0 && { warnings }) };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Update data card failed', error);
-    throw new Error(`Failed to update data card: ${errorMessage}`);
+    throw withContext(error, 'Failed to update data card');
+  }
+}
+
+/**
+ * Compare proposed changes against the current data card
+ * @param args - Data card and proposed folder and attributes
+ * @returns Field-level diff, nothing is written
+ */
+async function diffDataCardChanges(args: z.infer<typeof DiffDataCardSchema>) {
+  try {
+    validateTemplateCode(args.templateCode);
+    validateDataCardId(args.dataCardId);
+
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const { prepared } = await prepareWriteInput(templateInfo, { folderCode: args.folderCode, data: args.data });
+
+    const current = await getApiClient().get<RESTDataCard>(`dc/${args.templateCode}/data/${args.dataCardId}`);
+    return diffDataCard(args.dataCardId, current, prepared, templateInfo);
+  } catch (error: unknown) {
+    logger.error('Diff data card failed', error);
+    throw withContext(error, 'Failed to diff data card');
   }
 }
 
@@ -577,15 +1019,33 @@ async function deleteDataCard(args: z.infer<typeof DeleteDataCardSchema>) {
   try {
     validateTemplateCode(args.templateCode);
     validateDataCardId(args.dataCardId);
-    const result = await apiClient.delete<ApiResponse>(
-      `dc/${args.templateCode}/data/${args.dataCardId}`
-    );
-    
-    return result;
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}`;
+
+    // The current state is kept in the undo journal so the data card can be restored by hand
+    const current = await getApiClient().get<RESTDataCard>(path);
+
+    if (args.dryRun) {
+      const templateInfo = await templateRegistry.get(args.templateCode);
+      const changes: Record<string, AttributeChange> = {};
+      for (const [attributeCode, element] of Object.entries(current.data || {})) {
+        changes[attributeCode] = {
+          before: describeValues(element.values, attributeCode, templateInfo, element.type),
+          after: describeValues([], attributeCode, templateInfo, element.type),
+        };
+      }
+      return buildDryRunResult(
+        `Would move data card ${args.dataCardId}${current.name ? ` (${current.name})` : ''} in template ${args.templateCode} to the trash`,
+        { method: 'DELETE', path },
+        changes
+      );
+    }
+
+    const { result, entry } = await trashDataCard(args.templateCode, args.dataCardId, current);
+
+    return { ...result, changeId: entry.id };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Delete data card failed', error);
-    throw new Error(`Failed to delete data card: ${errorMessage}`);
+    throw withContext(error, 'Failed to delete data card');
   }
 }
 
@@ -594,37 +1054,85 @@ async function getAttribute(args: z.infer<typeof GetAttributeSchema>) {
     validateTemplateCode(args.templateCode);
     validateDataCardId(args.dataCardId);
     validateAttributeCode(args.attributeCode);
-    const result = await apiClient.get<RESTDataCardElement>(
+    const result = await getApiClient().get<RESTDataCardElement>(
       `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`
     );
     
+    if (args.format === 'flat') {
+      const templateInfo = await getTemplateInfoForFormat(args.templateCode);
+      return {
+        attributeCode: args.attributeCode,
+        type: result.type,
+        value: flattenElement(result, templateInfo?.attributes?.[args.attributeCode]?.multiValue),
+      };
+    }
     return result;
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Get attribute failed', error);
-    throw new Error(`Failed to get attribute: ${errorMessage}`);
+    throw withContext(error, 'Failed to get attribute');
   }
 }
 
+/**
+ * Record a write to a single attribute in the undo journal
+ */
+function recordAttributeChange(
+  action: JournalAction,
+  target: { templateCode: string; dataCardId: string; attributeCode: string },
+  current: RESTDataCardElement,
+  next: RESTValueElement[]
+) {
+  return recordChange({
+    action,
+    templateCode: target.templateCode,
+    dataCardId: target.dataCardId,
+    changes: [{ attribute: target.attributeCode, type: current.type, previous: current.values || [], next }],
+  });
+}
+
 async function updateAttribute(args: z.infer<typeof UpdateAttributeSchema>) {
   try {
     validateTemplateCode(args.templateCode);
     validateDataCardId(args.dataCardId);
     validateAttributeCode(args.attributeCode);
-    const body = {
-      values: args.values,
-    };
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const { data, references } = await prepareAttributeValues(templateInfo, args.attributeCode, args.values);
+    const body = data[args.attributeCode];
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`;
 
-    const result = await apiClient.put<ApiResponse>(
-      `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`,
-      body
-    );
+    const guard = { expectedValues: args.expectedValues, ifUnmodifiedSince: args.ifUnmodifiedSince };
+    if (hasConcurrencyGuard(guard)) {
+      const expected = prepareConcurrencyGuard(templateInfo, guard);
+      const card = await getApiClient().get<RESTDataCard>(`dc/${args.templateCode}/data/${args.dataCardId}`);
+      const conflict = checkConcurrency(templateInfo, args.dataCardId, card, expected, args.ifUnmodifiedSince, [args.attributeCode]);
+      if (conflict) {
+        throw new ConflictError(describeConflict(conflict), { details: conflict });
+      }
+    }
+
+    const current = await getApiClient().get<RESTDataCardElement>(path);
+
+    if (args.dryRun) {
+      return buildDryRunResult(
+        `Would replace the values of attribute ${args.attributeCode} in data card ${args.dataCardId}`,
+        { method: 'PUT', path, body },
+        {
+          [args.attributeCode]: {
+            before: describeValues(current.values, args.attributeCode, templateInfo, current.type),
+            after: describeValues(body.values, args.attributeCode, templateInfo, current.type),
+          },
+        },
+        references
+      );
+    }
+
+    const result = await getApiClient().put<ApiResponse>(path, body);
+    const entry = recordAttributeChange('update_attribute', args, current, body.values);
     
-    return result;
+    return { ...result, changeId: entry.id };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Update attribute failed', error);
-    throw new Error(`Failed to update attribute: ${errorMessage}`);
+    throw withContext(error, 'Failed to update attribute');
   }
 }
 
@@ -639,24 +1147,43 @@ async function addAttributeValue(args: z.infer<typeof AddAttributeValueSchema>)
     validateTemplateCode(args.templateCode);
     validateDataCardId(args.dataCardId);
     validateAttributeCode(args.attributeCode);
-    const body = {
-      values: args.values,
-    };
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const { data, references } = await prepareAttributeValues(templateInfo, args.attributeCode, args.values);
+    if (!templateInfo.attributes[args.attributeCode].multiValue) {
+      const message = `Attribute ${args.attributeCode} in template ${args.templateCode} holds a single value, values cannot be added to it. Use efecte_update_attribute to replace the value instead`;
+      throw new ValidationError(message, [{ attributeCode: args.attributeCode, message, error: 'single_value_attribute' }]);
+    }
+    const body = data[args.attributeCode];
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`;
 
-    const result = await apiClient.post<ApiResponse>(
-      `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`,
-      body
-    );
+    const current = await getApiClient().get<RESTDataCardElement>(path);
+
+    if (args.dryRun) {
+      return buildDryRunResult(
+        `Would add ${body.values.length} value(s) to attribute ${args.attributeCode} in data card ${args.dataCardId}`,
+        { method: 'POST', path, body },
+        {
+          [args.attributeCode]: {
+            before: describeValues(current.values, args.attributeCode, templateInfo, current.type),
+            after: describeValues([...(current.values || []), ...body.values], args.attributeCode, templateInfo, current.type),
+          },
+        },
+        references
+      );
+    }
+
+    const result = await getApiClient().post<ApiResponse>(path, body);
+    const entry = recordAttributeChange('add_attribute_value', args, current, [...(current.values || []), ...body.values]);
     
     return {
       success: true,
       message: `Added ${args.values.length} value(s) to attribute ${args.attributeCode}`,
+      changeId: entry.id,
       response: result,
     };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Add attribute value failed', error);
-    throw new Error(`Failed to add attribute value: ${errorMessage}`);
+    throw withContext(error, 'Failed to add attribute value');
   }
 }
 
@@ -670,19 +1197,37 @@ async function deleteAttributeValue(args: z.infer<typeof DeleteAttributeValueSch
     validateTemplateCode(args.templateCode);
     validateDataCardId(args.dataCardId);
     validateAttributeCode(args.attributeCode);
-    const result = await apiClient.delete<ApiResponse>(
-      `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`
-    );
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    checkAttributeCode(templateInfo, args.attributeCode);
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`;
+
+    const current = await getApiClient().get<RESTDataCardElement>(path);
+
+    if (args.dryRun) {
+      return buildDryRunResult(
+        `Would clear attribute ${args.attributeCode} in data card ${args.dataCardId}`,
+        { method: 'DELETE', path },
+        {
+          [args.attributeCode]: {
+            before: describeValues(current.values, args.attributeCode, templateInfo, current.type),
+            after: describeValues([], args.attributeCode, templateInfo, current.type),
+          },
+        }
+      );
+    }
+
+    const result = await getApiClient().delete<ApiResponse>(path);
+    const entry = recordAttributeChange('delete_attribute_value', args, current, []);
     
     return {
       success: true,
       message: `Attribute ${args.attributeCode} cleared successfully`,
+      changeId: entry.id,
       response: result,
     };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Delete attribute value failed', error);
-    throw new Error(`Failed to delete attribute value: ${errorMessage}`);
+    throw withContext(error, 'Failed to delete attribute value');
   }
 }
 
@@ -699,8 +1244,17 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
     
     const limit = Math.min(Math.max(args.limit || efecteConfig.pagination.defaultLimit, 1), efecteConfig.pagination.maxLimit);
     
-    // Log filter if provided
+    if (args.filter && args.where) {
+      throw new ValidationError('Provide either filter or where, not both');
+    }
+
+    // Check syntax and log filter if provided (attributes may differ between templates); syntax the
+    // local parser does not know is left to the server
+    const filterWarnings = args.filter ? validateEql(args.filter).issues : [];
     if (args.filter) {
+      if (filterWarnings.length > 0) {
+        logger.warn(`Sending filter with issues the local check cannot decide:\n${describeEqlIssues(args.filter, filterWarnings)}`);
+      }
       logger.debug(`Applying EQL filter to ${args.templateCodes.length} template(s): ${args.filter}`);
     }
     
@@ -712,7 +1266,12 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
       if (args.selectedAttributes) params.selectedAttributes = args.selectedAttributes;
 
       try {
-        const result = await apiClient.get<RESTPaginatedDataCardsInfo>(
+        // Structured conditions are compiled per template, as static values and attribute types differ
+        if (args.where) {
+          params.filter = compileWhere(args.where, await templateRegistry.get(templateCode));
+        }
+
+        const result = await getApiClient().get<RESTPaginatedDataCardsInfo>(
           `dc/${templateCode}/data`,
           { params }
         );
@@ -723,7 +1282,7 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
         };
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        const filterInfo = args.filter ? ` with filter "${args.filter}"` : '';
+        const filterInfo = params.filter ? ` with filter "${params.filter}"` : '';
         logger.warn(`Search failed for template ${templateCode}${filterInfo}:`, error);
         return {
           templateCode,
@@ -737,17 +1296,19 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
     
     // Aggregate results
     const aggregated: {
-      successful: Array<{ templateCode: string; data: RESTPaginatedDataCardsInfo }>;
+      successful: Array<{ templateCode: string; data: Awaited<ReturnType<typeof formatDataCardList>> }>;
       failed: Array<{ templateCode: string; error: string }>;
       totalTemplates: number;
       successfulTemplates: number;
       failedTemplates: number;
+      filterWarnings?: EqlIssue[];
     } = {
       successful: [],
       failed: [],
       totalTemplates: args.templateCodes.length,
       successfulTemplates: 0,
       failedTemplates: 0,
+      ...(filterWarnings.length > 0 && { filterWarnings }),
     };
 
     for (const result of results) {
@@ -755,7 +1316,7 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
         if (result.value.success) {
           aggregated.successful.push({
             templateCode: result.value.templateCode,
-            data: result.value.data,
+            data: await formatDataCardList(result.value.data, result.value.templateCode, args.format),
           });
           aggregated.successfulTemplates++;
         } else {
@@ -773,34 +1334,36 @@ async function searchMultipleTemplates(args: z.infer<typeof MultiTemplateSearchS
 
     return aggregated;
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Multi-template search failed', error);
-    throw new Error(`Failed to search multiple templates: ${errorMessage}`);
+    throw withContext(error, 'Failed to search multiple templates');
   }
 }
 
 async function streamDataCards(args: z.infer<typeof StreamDataCardsSchema>) {
+  let filter = args.filter;
   try {
     validateTemplateCode(args.templateCode);
     const params: Record<string, string | boolean> = {};
-    if (args.filter) {
-      logger.debug(`Applying EQL filter: ${args.filter}`);
-      params.filter = args.filter;
+    const resolved = await resolveFilter(args.templateCode, args.filter, args.where);
+    filter = resolved.filter;
+    if (filter) {
+      logger.debug(`Applying EQL filter: ${filter}`);
+      params.filter = filter;
     }
     if (args.dataCards !== undefined) params.dataCards = args.dataCards;
     if (args.selectedAttributes) params.selectedAttributes = args.selectedAttributes;
 
-    const result = await apiClient.get<RESTPaginatedDataCardsInfo>(
+    const result = await getApiClient().get<RESTPaginatedDataCardsInfo>(
       `dc/${args.templateCode}/data/stream`,
       { params }
     );
     
-    return result;
+    const formatted = await formatDataCardList(result, args.templateCode, args.format);
+    return resolved.warnings.length > 0 ? { ...formatted, filterWarnings: resolved.warnings } : formatted;
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Stream data cards failed', error);
-    const filterInfo = args.filter ? ` with filter "${args.filter}"` : '';
-    throw new Error(`Failed to stream data cards${filterInfo}: ${errorMessage}`);
+    const filterInfo = filter ? ` with filter "${filter}"` : '';
+    throw withContext(error, `Failed to stream data cards${filterInfo}`);
   }
 }
 
@@ -820,12 +1383,7 @@ async function searchDataCards(args: z.infer<typeof SearchDataCardsSchema>) {
     logger.info(`Searching data cards in template ${args.templateCode} for query: "${args.query}"`);
     
     // Get template definition to identify text fields
-    let templateInfo = templateInfoCache.get(args.templateCode);
-    if (!templateInfo) {
-      logger.debug(`Fetching template info for ${args.templateCode} to identify text fields`);
-      templateInfo = await apiClient.get<RESTTemplateInfo>(`dc/${args.templateCode}`);
-      templateInfoCache.set(args.templateCode, templateInfo, efecteConfig.caching.templatesTTL);
-    }
+    const templateIndex = await templateRegistry.getIndex(args.templateCode);
     
     // Determine which fields to search
     let searchFields: string[];
@@ -834,11 +1392,10 @@ async function searchDataCards(args: z.infer<typeof SearchDataCardsSchema>) {
       searchFields = args.searchFields;
     } else {
       // Get all text fields from template
-      const templateTextFields = getTextFieldsFromTemplate(templateInfo);
       const commonFields = getCommonTextFields();
       
       // Combine template fields with common fields, removing duplicates
-      const allFields = new Set([...commonFields, ...templateTextFields]);
+      const allFields = new Set([...commonFields, ...templateIndex.textFields]);
       searchFields = Array.from(allFields);
     }
     
@@ -854,7 +1411,7 @@ async function searchDataCards(args: z.infer<typeof SearchDataCardsSchema>) {
       dataCards: args.dataCards !== undefined ? args.dataCards : true,
     };
     
-    const result = await apiClient.get<RESTPaginatedDataCardsInfo>(
+    const result = await getApiClient().get<RESTPaginatedDataCardsInfo>(
       `dc/${args.templateCode}/data`,
       { params }
     );
@@ -864,11 +1421,49 @@ async function searchDataCards(args: z.infer<typeof SearchDataCardsSchema>) {
     
     logger.info(`Search returned ${filtered.data.length} matching data cards out of ${result.data.length} fetched`);
     
-    return filtered;
+    return args.format === 'flat' ? flattenDataCardList(filtered, templateIndex.template) : filtered;
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Search data cards failed', error);
-    throw new Error(`Failed to search data cards: ${errorMessage}`);
+    throw withContext(error, 'Failed to search data cards');
+  }
+}
+
+/**
+ * Validate an EQL filter against a template without querying data cards
+ * @param args - Template code and filter to validate
+ * @returns Validation result with issues and the normalized filter
+ */
+async function validateFilter(args: z.infer<typeof ValidateFilterSchema>) {
+  try {
+    validateTemplateCode(args.templateCode);
+    if (!args.filter && !args.where) {
+      throw new ValidationError('Either filter or where must be provided');
+    }
+
+    const templateInfo = await templateRegistry.get(args.templateCode);
+
+    if (args.where) {
+      try {
+        const compiled = compileWhere(args.where, templateInfo);
+        return { valid: true, issues: [], normalized: compiled };
+      } catch (compileError: unknown) {
+        const message = compileError instanceof Error ? compileError.message : 'Unknown error';
+        return { valid: false, issues: [{ kind: 'syntax', message, position: -1 }], details: message };
+      }
+    }
+
+    const filter = args.filter!;
+    validateNonEmpty(filter, 'Filter');
+    const result = validateEql(filter, templateInfo);
+
+    return {
+      filter,
+      ...result,
+      ...(!result.valid && { details: describeEqlIssues(filter, result.issues) }),
+    };
+  } catch (error: unknown) {
+    logger.error('Validate filter failed', error);
+    throw withContext(error, 'Failed to validate filter');
   }
 }
 
@@ -877,6 +1472,7 @@ export const tools = {
   efecte_get_datacard: getDataCard,
   efecte_create_datacard: createDataCard,
   efecte_update_datacard: updateDataCard,
+  efecte_diff_datacard: diffDataCardChanges,
   efecte_delete_datacard: deleteDataCard,
   efecte_get_attribute: getAttribute,
   efecte_update_attribute: updateAttribute,
@@ -885,4 +1481,5 @@ export const tools = {
   efecte_search_multiple_templates: searchMultipleTemplates,
   efecte_stream_datacards: streamDataCards,
   efecte_search_datacards: searchDataCards,
+  efecte_validate_filter: validateFilter,
 };
\ No newline at end of file
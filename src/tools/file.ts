@@ -1,7 +1,13 @@
 import { z } from 'zod';
-import { apiClient } from '../api/client.js';
+import { getApiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
+import { ValidationError, extractRestWarnings, withContext } from '../utils/errors.js';
 import { validateTemplateCode, validateDataCardId, validateAttributeCode, validateFileSize, validateNonEmpty } from '../utils/validation.js';
+import { findSimilarMatch } from '../utils/reference-attributes.js';
+import { templateRegistry } from '../utils/template-registry.js';
+import { buildDryRunResult, describeValues } from '../utils/dry-run.js';
+import { recordChange } from '../utils/journal.js';
+import { RESTDataCardElement } from '../types/efecte.js';
 
 const UploadFileSchema = z.object({
   templateCode: z.string().describe('Template code'),
@@ -10,6 +16,7 @@ const UploadFileSchema = z.object({
   fileContent: z.string().describe('Base64 encoded file content'),
   fileName: z.string().describe('Name of the file'),
   mimeType: z.string().optional().describe('MIME type of the file'),
+  dryRun: z.boolean().optional().default(false).describe('Validate and preview the upload without writing'),
 });
 
 const DownloadFileSchema = z.object({
@@ -23,6 +30,7 @@ export function registerFileTools() {
   return [
     {
       name: 'efecte_upload_file',
+      mutating: true,
       description: 'Upload a file attachment to a data card',
       inputSchema: {
         type: 'object',
@@ -33,6 +41,7 @@ export function registerFileTools() {
           fileContent: { type: 'string', description: 'Base64 encoded file content' },
           fileName: { type: 'string', description: 'Name of the file' },
           mimeType: { type: 'string', description: 'MIME type of the file' },
+          dryRun: { type: 'boolean', default: false, description: 'Validate the file and attribute and return the upload request and the attribute\'s current and resulting files without uploading' },
         },
         required: ['templateCode', 'dataCardId', 'attributeCode', 'fileContent', 'fileName'],
       },
@@ -62,27 +71,83 @@ async function uploadFile(args: z.infer<typeof UploadFileSchema>) {
     validateNonEmpty(args.fileName, 'File name');
     validateNonEmpty(args.fileContent, 'File content');
     
-    logger.info(`Uploading file: ${args.fileName} to datacard ${args.dataCardId}`);
-    
     const fileBuffer = Buffer.from(args.fileContent, 'base64');
     validateFileSize(fileBuffer.length);
     
-    const result = await apiClient.uploadFile(
-      `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}/file`,
+    // Check the attribute against the template before reading the data card
+    const templateInfo = await templateRegistry.get(args.templateCode);
+    const attribute = templateInfo.attributes?.[args.attributeCode];
+    if (!attribute) {
+      const fileAttributes = Object.entries(templateInfo.attributes || {}).filter(([, info]) => info.file).map(([code]) => code);
+      const suggestion = findSimilarMatch(args.attributeCode, fileAttributes);
+      const message = `Unknown attribute "${args.attributeCode}" in template ${args.templateCode}.${suggestion ? ` Did you mean "${suggestion}"?` : ''}`;
+      throw new ValidationError(message, [{ attributeCode: args.attributeCode, message, error: 'unknown_attribute' }]);
+    }
+    if (!attribute.file) {
+      const message = `Attribute "${args.attributeCode}" in template ${args.templateCode} is not a file attribute`;
+      throw new ValidationError(message, [{ attributeCode: args.attributeCode, message, error: 'invalid_attribute_type' }]);
+    }
+
+    const path = `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}/file`;
+    const current = await getApiClient().get<RESTDataCardElement>(
+      `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}`
+    );
+
+    if (args.dryRun) {
+      return buildDryRunResult(
+        `Would upload ${args.fileName} (${fileBuffer.length} bytes) to attribute ${args.attributeCode} in data card ${args.dataCardId}`,
+        {
+          method: 'POST',
+          path,
+          body: {
+            fileName: args.fileName,
+            contentType: args.mimeType || 'application/octet-stream',
+            size: fileBuffer.length,
+          },
+        },
+        {
+          [args.attributeCode]: {
+            before: describeValues(current.values, args.attributeCode, templateInfo, current.type),
+            after: describeValues([...(current.values || []), { name: args.fileName }], args.attributeCode, templateInfo, current.type),
+          },
+        }
+      );
+    }
+    
+    logger.info(`Uploading file: ${args.fileName} to datacard ${args.dataCardId}`);
+    
+    const result = await getApiClient().uploadFile(
+      path,
       fileBuffer,
       args.fileName,
       args.mimeType
     );
+
+    const entry = recordChange({
+      action: 'upload_file',
+      templateCode: args.templateCode,
+      dataCardId: args.dataCardId,
+      changes: [{
+        attribute: args.attributeCode,
+        type: current.type,
+        previous: current.values || [],
+        next: [...(current.values || []), { name: args.fileName }],
+      }],
+      undoable: false,
+      reason: 'Uploaded files cannot be removed through the REST API',
+    });
     
+    const warnings = extractRestWarnings(result);
     return {
       success: true,
       message: `File ${args.fileName} uploaded successfully`,
+      changeId: entry.id,
+      ...(warnings.length > 0 && { warnings }),
       response: result,
     };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('File upload failed', error);
-    throw new Error(`Failed to upload file: ${errorMessage}`);
+    throw withContext(error, 'Failed to upload file');
   }
 }
 
@@ -95,7 +160,7 @@ async function downloadFile(args: z.infer<typeof DownloadFileSchema>) {
     
     logger.info(`Downloading file from datacard ${args.dataCardId}`);
     
-    const fileBuffer = await apiClient.downloadFile(
+    const fileBuffer = await getApiClient().downloadFile(
       `dc/${args.templateCode}/data/${args.dataCardId}/${args.attributeCode}/file/${args.location}`
     );
     
@@ -106,9 +171,8 @@ async function downloadFile(args: z.infer<typeof DownloadFileSchema>) {
       size: fileBuffer.length,
     };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('File download failed', error);
-    throw new Error(`Failed to download file: ${errorMessage}`);
+    throw withContext(error, 'Failed to download file');
   }
 }
 
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { listApiClients } from '../api/client.js';
+import { logger } from '../utils/logger.js';
+import { efecteConfig, getInstanceProfile } from '../utils/config.js';
+import { ValidationError, withContext } from '../utils/errors.js';
+
+const ListInstancesSchema = z.object({});
+
+interface ToolDefinition {
+  name: string;
+  inputSchema: {
+    type: string;
+    properties?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export function registerInstanceTools() {
+  return [
+    {
+      name: 'efecte_list_instances',
+      description: 'List the Efecte instances (e.g. test, staging, production) this server is configured for. Every tool accepts an optional instance argument with one of these names; without it the default instance is used.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+  ];
+}
+
+/**
+ * Add the optional instance argument to tool definitions
+ */
+export function withInstanceArgument<T extends ToolDefinition>(tools: T[]): T[] {
+  const names = Object.keys(efecteConfig.instances);
+  return tools.map(tool => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        instance: {
+          type: 'string',
+          enum: names,
+          description: `Efecte instance to run against (default: ${efecteConfig.defaultInstance})`,
+        },
+      },
+    },
+  }));
+}
+
+/**
+ * Separate the instance argument from the tool arguments
+ * @returns Name of the selected instance and the remaining arguments
+ * @throws ValidationError or NotFoundError if the instance argument is invalid
+ */
+export function takeInstanceArgument(args: Record<string, unknown> | undefined): { instance: string; args: Record<string, unknown> } {
+  const { instance, ...rest } = args ?? {};
+  if (instance !== undefined && typeof instance !== 'string') {
+    throw new ValidationError('instance must be a string');
+  }
+  return { instance: getInstanceProfile(instance ?? efecteConfig.defaultInstance).name, args: rest };
+}
+
+async function listInstances(_args: z.infer<typeof ListInstancesSchema>) {
+  try {
+    const clients = new Map(listApiClients().map(client => [client.profile.name, client]));
+    const current = getInstanceProfile().name;
+
+    return {
+      defaultInstance: efecteConfig.defaultInstance,
+      currentInstance: current,
+      instances: Object.values(efecteConfig.instances).map(profile => {
+        const client = clients.get(profile.name);
+        return {
+          name: profile.name,
+          baseUrl: profile.baseUrl,
+          apiPath: profile.apiPath,
+          username: profile.username,
+          timeout: profile.timeout,
+          default: profile.name === efecteConfig.defaultInstance,
+          authenticated: client?.getAuthManager().isAuthenticated() ?? false,
+          ...(client && { backend: client.getCircuitBreaker().getStatus().state }),
+        };
+      }),
+    };
+  } catch (error: unknown) {
+    logger.error('List instances failed', error);
+    throw withContext(error, 'Failed to list instances');
+  }
+}
+
+export const tools = {
+  efecte_list_instances: listInstances,
+};
@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import { getApiClient } from '../api/client.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ForbiddenError, withContext } from '../utils/errors.js';
+import { getRequestContext, runWithRequestContext } from '../utils/request-context.js';
+import { efecteConfig, getInstanceProfile } from '../utils/config.js';
+import { isTemplateAllowed } from '../utils/access.js';
+import { recordChange, getChange, listChanges, markUndone, JournalEntry, AttributeChangeRecord } from '../utils/journal.js';
+import { diffAttribute } from '../utils/datacard-diff.js';
+import { flattenElement } from '../utils/flatten.js';
+import { ApiResponse, RESTDataCard, RESTDataCardElement, RESTDataCardModifyRequest } from '../types/efecte.js';
+
+const ListChangesSchema = z.object({
+  scope: z.enum(['session', 'all']).optional().default('session').describe('Changes of the current session or of all sessions (needs EFECTE_SHARED_JOURNAL)'),
+  templateCode: z.string().optional().describe('Only changes to this template'),
+  dataCardId: z.string().optional().describe('Only changes to this data card'),
+  limit: z.number().optional().default(20).describe('Maximum number of changes to return'),
+});
+
+const UndoSchema = z.object({
+  changeId: z.string().optional().describe('ID of the change to revert'),
+  count: z.number().optional().default(1).describe('Number of most recent changes of the current session to revert'),
+  force: z.boolean().optional().default(false).describe('Revert even if the data card changed since'),
+});
+
+interface UndoResult {
+  changeId: string;
+  status: 'undone' | 'conflict' | 'failed';
+  message: string;
+  undoChangeId?: string;
+  conflicts?: { attribute: string; expected: unknown; actual: unknown }[];
+}
+
+export function registerJournalTools() {
+  return [
+    {
+      name: 'efecte_list_changes',
+      description: 'List writes made through this server (newest first), with the values before and after each change. Changes are kept in memory for the lifetime of the server.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['session', 'all'], default: 'session', description: 'Changes of the current session (default) or of all sessions (only when the server is configured with a shared journal)' },
+          templateCode: { type: 'string', description: 'Only changes to this template' },
+          dataCardId: { type: 'string', description: 'Only changes to this data card' },
+          limit: { type: 'number', default: 20, description: 'Maximum number of changes to return' },
+        },
+      },
+    },
+    {
+      name: 'efecte_undo',
+      mutating: true,
+      description: 'Revert changes by writing the previous values back. Either a specific change of the current session (changeId from efecte_list_changes or a write tool result; changes of other sessions only when the server is configured with a shared journal) or the last N changes of the current session on the selected instance. Before writing, the data card is read again; if the affected attributes changed since, the change is not reverted and the conflict is reported (unless force is set). Created data cards are deleted; deletions and file uploads cannot be reverted.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          changeId: { type: 'string', description: 'ID of the change to revert' },
+          count: { type: 'number', default: 1, description: 'Number of most recent changes of the current session on the selected instance to revert (ignored when changeId is given)' },
+          force: { type: 'boolean', default: false, description: 'Revert even if the data card changed since the change was made' },
+        },
+      },
+    },
+  ];
+}
+
+function describeEntry(entry: JournalEntry) {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    sessionId: entry.sessionId,
+    tool: entry.tool,
+    instance: entry.instance,
+    action: entry.action,
+    templateCode: entry.templateCode,
+    dataCardId: entry.dataCardId,
+    ...(entry.name !== undefined && { name: entry.name }),
+    ...(entry.folder && { folder: entry.folder }),
+    changes: entry.changes.map(change => ({
+      attribute: change.attribute,
+      before: flattenElement({ type: change.type, values: change.previous } as RESTDataCardElement),
+      after: flattenElement({ type: change.type, values: change.next } as RESTDataCardElement),
+    })),
+    undoable: entry.undoable && !entry.undoneBy,
+    ...(entry.reason && { reason: entry.reason }),
+    ...(entry.undoneBy && { undoneBy: entry.undoneBy }),
+    ...(entry.undoOf && { undoOf: entry.undoOf }),
+  };
+}
+
+async function listJournalChanges(args: z.infer<typeof ListChangesSchema>) {
+  try {
+    if ((args.scope ?? 'session') === 'all' && !efecteConfig.access.sharedJournal) {
+      throw new ForbiddenError('Changes of other sessions are not available, the journal is not shared on this server (EFECTE_SHARED_JOURNAL)');
+    }
+    const sessionId = (args.scope ?? 'session') === 'session' ? getRequestContext()?.sessionId : undefined;
+    // Changes to templates that are not available on this server are left out
+    const changes = listChanges({ sessionId, templateCode: args.templateCode, dataCardId: args.dataCardId })
+      .filter(entry => isTemplateAllowed(entry.templateCode))
+      .slice(0, args.limit ?? 20);
+
+    return {
+      count: changes.length,
+      changes: changes.map(describeEntry),
+    };
+  } catch (error: unknown) {
+    logger.error('List changes failed', error);
+    throw withContext(error, 'Failed to list changes');
+  }
+}
+
+/**
+ * Compare the current values with the values a change wrote
+ * Worklog entries cannot be removed, so they are neither checked nor reverted.
+ */
+function findConflicts(card: RESTDataCard, changes: AttributeChangeRecord[]): NonNullable<UndoResult['conflicts']> {
+  const conflicts: NonNullable<UndoResult['conflicts']> = [];
+  for (const change of changes) {
+    const currentElement = card.data?.[change.attribute];
+    const type = currentElement?.type ?? change.type ?? 'string';
+    if (type === 'worklog') {
+      continue;
+    }
+    if (diffAttribute(change.attribute, currentElement?.values || [], change.next, type)) {
+      conflicts.push({
+        attribute: change.attribute,
+        expected: flattenElement({ type, values: change.next } as RESTDataCardElement),
+        actual: flattenElement({ type, values: currentElement?.values || [] } as RESTDataCardElement),
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Revert a single change, recording the revert itself as a new change
+ */
+async function undoChange(entry: JournalEntry, force: boolean): Promise<UndoResult> {
+  if (!entry.undoable) {
+    return { changeId: entry.id, status: 'failed', message: entry.reason ?? 'This change cannot be reverted' };
+  }
+  if (entry.undoneBy) {
+    return { changeId: entry.id, status: 'failed', message: `Already reverted by ${entry.undoneBy}` };
+  }
+  if (!isTemplateAllowed(entry.templateCode)) {
+    return { changeId: entry.id, status: 'failed', message: `Template ${entry.templateCode} is not available on this server` };
+  }
+  const referencedTemplates = new Set(entry.changes.flatMap(change => [...change.previous, ...change.next])
+    .map(value => value.templateCode)
+    .filter((templateCode): templateCode is string => templateCode !== undefined && !isTemplateAllowed(templateCode)));
+  if (referencedTemplates.size > 0) {
+    return {
+      changeId: entry.id,
+      status: 'failed',
+      message: `The change refers to data cards of ${[...referencedTemplates].join(', ')}, which ${referencedTemplates.size === 1 ? 'is' : 'are'} not available on this server`,
+    };
+  }
+
+  const path = `dc/${entry.templateCode}/data/${entry.dataCardId}`;
+
+  try {
+    const card = await getApiClient().get<RESTDataCard>(path);
+    const conflicts = findConflicts(card, entry.changes);
+    if (entry.folder && card.folderCode !== entry.folder.next) {
+      conflicts.push({ attribute: 'folderCode', expected: entry.folder.next, actual: card.folderCode });
+    }
+    if (conflicts.length > 0 && !force) {
+      return {
+        changeId: entry.id,
+        status: 'conflict',
+        message: `Data card ${entry.dataCardId} changed since ${entry.id}, nothing was written. Use force to revert anyway`,
+        conflicts,
+      };
+    }
+
+    if (entry.action === 'create') {
+      await getApiClient().delete<ApiResponse>(path);
+      const undo = recordChange({
+        action: 'undo',
+        undoOf: entry.id,
+        templateCode: entry.templateCode,
+        dataCardId: entry.dataCardId,
+        changes: entry.changes.map(change => ({ ...change, previous: change.next, next: [] })),
+        undoable: false,
+        reason: 'Reverting a create deletes the data card, which cannot be reverted',
+      });
+      markUndone(entry.id, undo.id);
+      return { changeId: entry.id, status: 'undone', message: `Deleted data card ${entry.dataCardId}`, undoChangeId: undo.id };
+    }
+
+    const reverted = entry.changes.filter(change => (card.data?.[change.attribute]?.type ?? change.type) !== 'worklog');
+    const data: NonNullable<RESTDataCardModifyRequest['data']> = {};
+    for (const change of reverted.filter(change => change.previous.length > 0)) {
+      data[change.attribute] = { values: change.previous };
+    }
+
+    if (Object.keys(data).length > 0 || entry.folder?.previous) {
+      const body: RESTDataCardModifyRequest = {
+        dataCardId: entry.dataCardId,
+        ...(entry.folder?.previous && { folderCode: entry.folder.previous }),
+        data,
+      };
+      await getApiClient().patch(path, body);
+    }
+    // Attributes that were empty before are cleared
+    for (const change of reverted.filter(change => change.previous.length === 0)) {
+      await getApiClient().delete<ApiResponse>(`${path}/${change.attribute}`);
+    }
+
+    const undo = recordChange({
+      action: 'undo',
+      undoOf: entry.id,
+      templateCode: entry.templateCode,
+      dataCardId: entry.dataCardId,
+      ...(entry.name !== undefined && { name: entry.name }),
+      ...(entry.folder?.previous && { folder: { previous: card.folderCode, next: entry.folder.previous } }),
+      changes: reverted.map(change => ({
+        ...change,
+        previous: card.data?.[change.attribute]?.values || [],
+        next: change.previous,
+      })),
+    });
+    markUndone(entry.id, undo.id);
+
+    const skipped = entry.changes.length - reverted.length;
+    return {
+      changeId: entry.id,
+      status: 'undone',
+      message: `Restored ${reverted.length} attribute(s) of data card ${entry.dataCardId}${skipped > 0 ? `, ${skipped} worklog attribute(s) left as they are` : ''}`,
+      undoChangeId: undo.id,
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`Undo of ${entry.id} failed: ${errorMessage}`);
+    return { changeId: entry.id, status: 'failed', message: errorMessage };
+  }
+}
+
+/**
+ * Revert a specific change or the most recent changes of the current session
+ * Changes are reverted newest first and one at a time, so later changes to the same data card are reverted before earlier ones.
+ */
+async function undo(args: z.infer<typeof UndoSchema>) {
+  try {
+    let targets: JournalEntry[];
+    if (args.changeId) {
+      const entry = getChange(args.changeId);
+      if (!entry) {
+        throw new NotFoundError(`Change ${args.changeId} not found, it may be older than the journal keeps`);
+      }
+      if (entry.sessionId !== getRequestContext()?.sessionId && !efecteConfig.access.sharedJournal) {
+        throw new ForbiddenError(`Change ${args.changeId} was made in another session and cannot be reverted from this one`, {
+          details: { changeId: args.changeId },
+        });
+      }
+      targets = [entry];
+    } else {
+      const count = Math.max(1, Math.floor(args.count ?? 1));
+      targets = listChanges({ sessionId: getRequestContext()?.sessionId, instance: getInstanceProfile().name })
+        .filter(entry => entry.undoable && !entry.undoneBy && !entry.undoOf)
+        .slice(0, count);
+      if (targets.length === 0) {
+        return { results: [], message: 'No changes to revert in this session on this instance' };
+      }
+    }
+
+    const results: UndoResult[] = [];
+    const context = getRequestContext() ?? { sessionId: 'unknown', tool: 'efecte_undo' };
+    for (const entry of targets) {
+      // Changes are always reverted on the instance they were made on
+      results.push(await runWithRequestContext({ ...context, instance: entry.instance }, () => undoChange(entry, args.force ?? false)));
+    }
+
+    return {
+      undone: results.filter(result => result.status === 'undone').length,
+      conflicts: results.filter(result => result.status === 'conflict').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results,
+    };
+  } catch (error: unknown) {
+    logger.error('Undo failed', error);
+    throw withContext(error, 'Failed to undo');
+  }
+}
+
+export const tools = {
+  efecte_list_changes: listJournalChanges,
+  efecte_undo: undo,
+};
@@ -1,28 +1,29 @@
 import { z } from 'zod';
-import { apiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
+import { withContext } from '../utils/errors.js';
 import { validateTemplateCode } from '../utils/validation.js';
-import { RESTTemplateInfoElement, RESTTemplateInfo } from '../types/efecte.js';
-import { Cache } from '../utils/cache.js';
-import { efecteConfig } from '../utils/config.js';
+import { templateRegistry } from '../utils/template-registry.js';
+import { isTemplateAllowed } from '../utils/access.js';
 
-const ListTemplatesSchema = z.object({});
+const ListTemplatesSchema = z.object({
+  refresh: z.boolean().optional().default(false).describe('Fetch the list and all template definitions again instead of using the cache'),
+});
 
 const GetTemplateSchema = z.object({
   templateCode: z.string().describe('Template code to fetch details for'),
+  refresh: z.boolean().optional().default(false).describe('Fetch the template again instead of using the cache'),
 });
 
-const templateCache = new Cache<RESTTemplateInfo>('templates');
-const templateListCache = new Cache<RESTTemplateInfoElement[]>('template-list');
-
 export function registerTemplateTools() {
   return [
     {
       name: 'efecte_list_templates',
-      description: 'Get a list of all available templates',
+      description: 'Get a list of all available templates (templates disabled on this server are left out)',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          refresh: { type: 'boolean', default: false, description: 'Fetch the list and all template definitions again instead of using the cache' },
+        },
       },
     },
     {
@@ -32,6 +33,7 @@ export function registerTemplateTools() {
         type: 'object',
         properties: {
           templateCode: { type: 'string', description: 'Template code to fetch details for' },
+          refresh: { type: 'boolean', default: false, description: 'Fetch the template again instead of using the cache. The refreshed definition is used by all tools' },
         },
         required: ['templateCode'],
       },
@@ -39,46 +41,29 @@ export function registerTemplateTools() {
   ];
 }
 
-async function listTemplates(_args: z.infer<typeof ListTemplatesSchema>) {
+async function listTemplates(args: z.infer<typeof ListTemplatesSchema>) {
   try {
-    const cached = templateListCache.get('all');
-    if (cached) {
-      logger.debug('Returning cached template list');
-      return cached;
+    if (args.refresh) {
+      templateRegistry.invalidate();
     }
-
-    logger.info('Fetching template list from API');
-    const result = await apiClient.get<RESTTemplateInfoElement[]>('dc');
-    
-    templateListCache.set('all', result, efecteConfig.caching.templatesTTL);
-    
-    return result;
+    const templates = await templateRegistry.list();
+    return templates.filter(template => isTemplateAllowed(template.templateCode));
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('List templates failed', error);
-    throw new Error(`Failed to list templates: ${errorMessage}`);
+    throw withContext(error, 'Failed to list templates');
   }
 }
 
 async function getTemplate(args: z.infer<typeof GetTemplateSchema>) {
   try {
     validateTemplateCode(args.templateCode);
-    const cached = templateCache.get(args.templateCode);
-    if (cached) {
-      logger.debug(`Returning cached template: ${args.templateCode}`);
-      return cached;
+    if (args.refresh) {
+      templateRegistry.invalidate(args.templateCode);
     }
-
-    logger.info(`Fetching template details: ${args.templateCode}`);
-    const result = await apiClient.get<RESTTemplateInfo>(`dc/${args.templateCode}`);
-    
-    templateCache.set(args.templateCode, result, efecteConfig.caching.templatesTTL);
-    
-    return result;
+    return await templateRegistry.get(args.templateCode);
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Get template failed', error);
-    throw new Error(`Failed to get template: ${errorMessage}`);
+    throw withContext(error, 'Failed to get template');
   }
 }
 
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { apiClient } from '../api/client.js';
+import { getApiClient } from '../api/client.js';
 import { logger } from '../utils/logger.js';
 import { ApiResponse } from '../types/efecte.js';
 
@@ -43,7 +43,7 @@ async function echo(args: z.infer<typeof EchoSchema>) {
     const params: Record<string, string> = {};
     if (args.message) params.message = args.message;
 
-    const result = await apiClient.get<ApiResponse>('echo', { params });
+    const result = await getApiClient().get<ApiResponse>('echo', { params });
     
     return {
       success: true,
@@ -67,7 +67,7 @@ async function echoAuth(args: z.infer<typeof EchoAuthSchema>) {
     const params: Record<string, string> = {};
     if (args.message) params.message = args.message;
 
-    const result = await apiClient.get<ApiResponse>('echo/jwt', { params });
+    const result = await getApiClient().get<ApiResponse>('echo/jwt', { params });
     
     return {
       success: true,
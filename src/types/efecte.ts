@@ -62,6 +62,10 @@ export interface PaginationMetaInfo {
     next?: string;
     [key: string]: string | undefined;
   };
+  // Set by the MCP server when pages are walked automatically
+  pagesFetched?: number;
+  hasMore?: boolean;
+  cursor?: string;
 }
 
 export interface RESTPaginatedDataCardsInfo {
@@ -159,15 +163,62 @@ export interface RESTTemplateInfo {
   };
 }
 
-export interface EfecteConfig {
+export type CacheStorageType = 'memory' | 'file';
+
+export interface CacheLimits {
+  // Maximum number of entries, 0 for no limit
+  maxEntries: number;
+  // Approximate maximum size of all values in bytes, 0 for no limit
+  maxBytes: number;
+}
+
+/**
+ * Connection settings of one Efecte instance (tenant)
+ */
+export interface InstanceProfile {
+  name: string;
   baseUrl: string;
   apiPath: string;
   username: string;
   password: string;
   timeout: number;
+}
+
+export interface EfecteConfig {
+  // Instance used by tool calls without an instance argument
+  defaultInstance: string;
+  instances: Record<string, InstanceProfile>;
+  access: {
+    // Hide and reject all tools that write to Efecte
+    readOnly: boolean;
+    // Tool names, "*" matches any characters; undefined allows all tools
+    allowedTools?: string[];
+    deniedTools: string[];
+    // Template codes, "*" matches any characters; undefined allows all templates
+    allowedTemplates?: string[];
+    deniedTemplates: string[];
+    // Let every session list and revert the changes of other sessions
+    sharedJournal: boolean;
+  };
   caching: {
     templatesTTL: number;
     authTokenTTL: number;
+    // How long expired template and reference entries may still be served while they are refreshed
+    staleTTL: number;
+    storage: {
+      // Backend used by caches without an override
+      default: CacheStorageType;
+      // Directory of the file backend
+      directory: string;
+      // Backend per cache name
+      caches: Record<string, CacheStorageType>;
+    };
+    limits: {
+      // Limits of caches without an override
+      default: CacheLimits;
+      // Limits per cache name
+      caches: Record<string, CacheLimits>;
+    };
   };
   pagination: {
     defaultLimit: number;
@@ -193,4 +244,28 @@ export interface EfecteConfig {
     maxRequestsPerMinute: number;
     tokenRefreshThreshold: number;
   };
+  retry: {
+    // Total attempts per request, 1 disables retries
+    maxAttempts: number;
+    // Delay before the first retry in ms, doubled for each further retry
+    baseDelay: number;
+    // Upper bound of a single delay in ms, also for Retry-After
+    maxDelay: number;
+    // Randomize delays between 0 and the backoff
+    jitter: boolean;
+  };
+  circuitBreaker: {
+    // Consecutive failed requests that open the circuit, 0 disables the breaker
+    failureThreshold: number;
+    // Time in ms requests fail fast before the backend is probed again
+    openDuration: number;
+  };
+  throttle: {
+    // Sustained outbound request rate, 0 for no limit
+    requestsPerSecond: number;
+    // Requests that may be sent at once before the rate applies
+    burst: number;
+    // Maximum requests in flight, 0 for no limit
+    maxConcurrent: number;
+  };
 }
\ No newline at end of file
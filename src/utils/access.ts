@@ -0,0 +1,90 @@
+import { efecteConfig } from './config.js';
+import { ForbiddenError } from './errors.js';
+
+/**
+ * Fields of a tool definition the access checks use
+ * Tools that create, change or delete data in Efecte are marked as mutating in their definition.
+ */
+export interface AccessControlledTool {
+  name: string;
+  mutating?: boolean;
+}
+
+// Name patterns where "*" matches any characters
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.map(pattern => {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^$()|[\]{}\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`);
+  });
+}
+
+function isListed(value: string, allowed: RegExp[] | undefined, denied: RegExp[]): boolean {
+  if (denied.some(pattern => pattern.test(value))) {
+    return false;
+  }
+  return !allowed || allowed.some(pattern => pattern.test(value));
+}
+
+const allowedTools = efecteConfig.access.allowedTools && compilePatterns(efecteConfig.access.allowedTools);
+const deniedTools = compilePatterns(efecteConfig.access.deniedTools);
+const allowedTemplates = efecteConfig.access.allowedTemplates && compilePatterns(efecteConfig.access.allowedTemplates);
+const deniedTemplates = compilePatterns(efecteConfig.access.deniedTemplates);
+
+/**
+ * Whether a tool is available with the read-only mode and the tool allow/deny lists
+ */
+export function isToolAllowed(tool: AccessControlledTool): boolean {
+  if (efecteConfig.access.readOnly && tool.mutating) {
+    return false;
+  }
+  return isListed(tool.name, allowedTools, deniedTools);
+}
+
+/**
+ * Whether a template may be used with the template allow/deny lists
+ */
+export function isTemplateAllowed(templateCode: string): boolean {
+  return isListed(templateCode, allowedTemplates, deniedTemplates);
+}
+
+/**
+ * Remove tools that are not available from tool definitions, and the mutating flag from the rest
+ */
+export function filterTools<T extends AccessControlledTool>(tools: T[]): Omit<T, 'mutating'>[] {
+  return tools.filter(isToolAllowed).map(({ mutating: _mutating, ...tool }) => tool);
+}
+
+/**
+ * @throws ForbiddenError if the template is not allowed
+ */
+export function checkTemplateAccess(templateCode: string): void {
+  if (!isTemplateAllowed(templateCode)) {
+    throw new ForbiddenError(`Template ${templateCode} is not available on this server`, { details: { templateCode } });
+  }
+}
+
+// Template codes a tool call refers to: templateCode, templateCodes and bulk operations
+function templateCodesOf(args: Record<string, unknown>): string[] {
+  const codes: unknown[] = [args.templateCode];
+  if (Array.isArray(args.templateCodes)) {
+    codes.push(...args.templateCodes);
+  }
+  if (Array.isArray(args.operations)) {
+    codes.push(...args.operations.map(operation => (operation as { templateCode?: unknown } | null)?.templateCode));
+  }
+  return codes.filter((code): code is string => typeof code === 'string');
+}
+
+/**
+ * Reject a tool call that the access configuration does not allow
+ * @throws ForbiddenError if the tool or one of the templates it refers to is not allowed
+ */
+export function checkToolAccess(tool: AccessControlledTool, args: Record<string, unknown>): void {
+  if (!isToolAllowed(tool)) {
+    const reason = efecteConfig.access.readOnly && tool.mutating ? 'the server is read-only' : 'it is disabled on this server';
+    throw new ForbiddenError(`Tool ${tool.name} is not available, ${reason}`, { details: { tool: tool.name } });
+  }
+  for (const templateCode of templateCodesOf(args)) {
+    checkTemplateAccess(templateCode);
+  }
+}
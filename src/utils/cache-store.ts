@@ -0,0 +1,290 @@
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { logger } from './logger.js';
+import { CacheStorageType } from '../types/efecte.js';
+
+// How often file stores look for changes made by other processes
+const RELOAD_INTERVAL_MS = 5000;
+// Delay between the first unsaved change and writing the file
+const FLUSH_DELAY_MS = 1000;
+
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+  // Missing in entries persisted before ages were tracked
+  storedAt?: number;
+  // Approximate size of the value, set when the cache has a byte budget
+  bytes?: number;
+}
+
+/**
+ * Storage backend of a cache
+ * Lookups and updates are synchronous so cache lookups stay synchronous for callers;
+ * stores backed by files load and persist their entries in the background.
+ */
+export interface CacheStore<T> {
+  readonly type: CacheStorageType;
+  // Resolves once stored entries are available
+  ready(): Promise<void>;
+  // Write pending changes
+  flush(): Promise<void>;
+  get(key: string): CacheEntry<T> | undefined;
+  set(key: string, entry: CacheEntry<T>): void;
+  delete(key: string): boolean;
+  // Mark an entry as most recently used
+  touch(key: string): void;
+  clear(): void;
+  // Least recently used first
+  entries(): [string, CacheEntry<T>][];
+  // Remove all entries matching the predicate, returns the number removed
+  removeWhere(predicate: (entry: CacheEntry<T>, key: string) => boolean): number;
+  size(): number;
+}
+
+/**
+ * Entries kept in process memory
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  readonly type = 'memory' as const;
+  private entriesByKey: Map<string, CacheEntry<T>> = new Map();
+
+  ready(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    return this.entriesByKey.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    this.entriesByKey.delete(key);
+    this.entriesByKey.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.entriesByKey.delete(key);
+  }
+
+  touch(key: string): void {
+    const entry = this.entriesByKey.get(key);
+    if (entry) {
+      this.entriesByKey.delete(key);
+      this.entriesByKey.set(key, entry);
+    }
+  }
+
+  clear(): void {
+    this.entriesByKey.clear();
+  }
+
+  entries(): [string, CacheEntry<T>][] {
+    return [...this.entriesByKey.entries()];
+  }
+
+  removeWhere(predicate: (entry: CacheEntry<T>, key: string) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.entriesByKey.entries()) {
+      if (predicate(entry, key)) {
+        this.entriesByKey.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  size(): number {
+    return this.entriesByKey.size;
+  }
+}
+
+/**
+ * Entries kept in a JSON file, one file per cache
+ * Lookups and updates work on entries held in memory. The file is read in the background: once
+ * when the store is created, and again when another process changed it (checked at most every
+ * RELOAD_INTERVAL_MS), so several server processes (e.g. the STDIO and HTTP servers) can share it.
+ * Updates are batched and written FLUSH_DELAY_MS after the first unsaved change, replacing the file
+ * atomically; concurrent writers may lose each other's latest entry, which only costs a re-fetch.
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  readonly type = 'file' as const;
+  private entriesByKey: Map<string, CacheEntry<T>> = new Map();
+  private readonly directory: string;
+  private readonly file: string;
+  private loadedMtimeMs = -1;
+  private lastCheck = 0;
+  // Keys changed in this process since the last write, kept over entries read from the file
+  private changedKeys: Set<string> = new Set();
+  private cleared = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Serializes reads and writes of the file
+  private queue: Promise<void> = Promise.resolve();
+  private readonly loaded: Promise<void>;
+
+  constructor(directory: string, name: string) {
+    this.directory = directory;
+    this.file = join(directory, `${name.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+    this.loaded = this.enqueue(async () => {
+      try {
+        await mkdir(directory, { recursive: true, mode: 0o700 });
+      } catch (error) {
+        logger.warn(`Cache directory ${directory} could not be created`, error);
+      }
+      await this.reload();
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task, task);
+    this.queue = run;
+    return run;
+  }
+
+  /**
+   * Read the file if another process changed it, keeping entries changed here since the last write
+   */
+  private async reload(): Promise<void> {
+    this.lastCheck = Date.now();
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.file)).mtimeMs;
+    } catch {
+      // No file yet
+      return;
+    }
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    try {
+      const content = JSON.parse(await readFile(this.file, 'utf8')) as Record<string, CacheEntry<T>>;
+      const entries = new Map(this.cleared ? [] : Object.entries(content));
+      for (const key of this.changedKeys) {
+        const entry = this.entriesByKey.get(key);
+        entries.delete(key);
+        if (entry) {
+          entries.set(key, entry);
+        }
+      }
+      this.entriesByKey = entries;
+    } catch (error) {
+      logger.warn(`Cache file ${this.file} could not be read, ignoring it`, error);
+    }
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private checkForChanges(): void {
+    if (Date.now() - this.lastCheck < RELOAD_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheck = Date.now();
+    this.enqueue(() => this.reload());
+  }
+
+  private markChanged(key?: string): void {
+    if (key === undefined) {
+      this.cleared = true;
+      this.changedKeys.clear();
+    } else {
+      this.changedKeys.add(key);
+    }
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.cleared && this.changedKeys.size === 0) {
+      return;
+    }
+    if (!this.cleared) {
+      await this.reload();
+    }
+    this.changedKeys.clear();
+    this.cleared = false;
+
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    try {
+      await mkdir(this.directory, { recursive: true, mode: 0o700 });
+      await writeFile(temporary, JSON.stringify(Object.fromEntries(this.entriesByKey)), { mode: 0o600 });
+      await rename(temporary, this.file);
+      this.loadedMtimeMs = (await stat(this.file)).mtimeMs;
+    } catch (error) {
+      logger.warn(`Cache file ${this.file} could not be written`, error);
+    }
+  }
+
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    return this.enqueue(() => this.persist());
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    this.checkForChanges();
+    return this.entriesByKey.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    this.entriesByKey.delete(key);
+    this.entriesByKey.set(key, entry);
+    this.markChanged(key);
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.entriesByKey.delete(key);
+    if (deleted) {
+      this.markChanged(key);
+    }
+    return deleted;
+  }
+
+  // Usage order is tracked in memory only; the file keeps the order of writes
+  touch(key: string): void {
+    const entry = this.entriesByKey.get(key);
+    if (entry) {
+      this.entriesByKey.delete(key);
+      this.entriesByKey.set(key, entry);
+    }
+  }
+
+  clear(): void {
+    this.entriesByKey.clear();
+    this.markChanged();
+  }
+
+  entries(): [string, CacheEntry<T>][] {
+    this.checkForChanges();
+    return [...this.entriesByKey.entries()];
+  }
+
+  removeWhere(predicate: (entry: CacheEntry<T>, key: string) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.entriesByKey.entries()) {
+      if (predicate(entry, key)) {
+        this.entriesByKey.delete(key);
+        this.markChanged(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  size(): number {
+    this.checkForChanges();
+    return this.entriesByKey.size;
+  }
+}
@@ -1,88 +1,436 @@
+import { createHash } from 'crypto';
+import { join } from 'path';
 import { logger } from './logger.js';
+import { efecteConfig, getInstanceProfile } from './config.js';
+import { CacheEntry, CacheStore, FileCacheStore, MemoryCacheStore } from './cache-store.js';
+import { CacheLimits, CacheStorageType, InstanceProfile } from '../types/efecte.js';
 
-interface CacheEntry<T> {
-  value: T;
-  expiresAt: number;
+export interface CacheOptions {
+  // Never persist entries, regardless of the storage configuration (secrets, per-process state)
+  memoryOnly?: boolean;
+  // Keep serving expired entries from getOrLoad while they are refreshed in the background
+  staleWhileRevalidate?: boolean;
+  // Instance whose entries the cache holds, instead of the one selected for the current tool call
+  instance?: string;
+}
+
+/**
+ * Counters and contents summary of a cache
+ * Counters cover the lifetime of this process, also for caches stored in files.
+ */
+export interface CacheStats {
+  name: string;
+  instance: string;
+  storage: CacheStorageType;
+  memoryOnly: boolean;
+  size: number;
+  approximateBytes: number;
+  limits: CacheLimits;
+  hits: number;
+  // Expired entries served by getOrLoad while refreshing (included in hits)
+  staleHits: number;
+  misses: number;
+  // Hits divided by lookups, null before the first lookup
+  hitRatio: number | null;
+  // Entries dropped by the cache itself (expired or least recently used beyond the limits)
+  evictions: number;
+  // Entries removed on request (delete, clear)
+  invalidations: number;
+  oldestEntryAgeMs: number | null;
+  newestEntryAgeMs: number | null;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  ageMs: number | null;
+  // Negative once expired
+  expiresInMs: number;
+  // Expired entries are only served by caches with stale-while-revalidate
+  expired: boolean;
 }
 
 // Registry of all cache instances for scheduled cleanup
 const cacheRegistry: Set<Cache<any>> = new Set();
 let cleanupInterval: NodeJS.Timeout | null = null;
 
+/**
+ * Approximate the memory a value takes by the length of its JSON form
+ */
+function approximateBytes(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function totalBytes(entries: [string, CacheEntry<unknown>][]): number {
+  return entries.reduce((sum, [, entry]) => sum + (entry.bytes ?? approximateBytes(entry.value)), 0);
+}
+
+/**
+ * Directory name of an instance's file caches: the host for readability, plus a hash of
+ * everything that identifies the instance, so profiles on the same host never share entries
+ */
+function instanceDirectory(profile: InstanceProfile): string {
+  const host = new URL(profile.baseUrl).host.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const hash = createHash('sha256').update(`${profile.baseUrl}\n${profile.apiPath}\n${profile.username}`).digest('hex');
+  return `${host}-${hash.slice(0, 12)}`;
+}
+
+/**
+ * Create the storage backend configured for a cache
+ * File caches live in a directory per instance (see instanceDirectory).
+ */
+function createStore<T>(name: string, options: CacheOptions, profile: InstanceProfile): CacheStore<T> {
+  const { storage } = efecteConfig.caching;
+  const type = storage.caches[name] ?? storage.default;
+  if (type !== 'file' || options.memoryOnly) {
+    return new MemoryCacheStore<T>();
+  }
+
+  const directory = join(storage.directory, instanceDirectory(profile));
+  logger.debug(`Cache [${name}]: Using file storage in ${directory} for instance ${profile.name}`);
+  return new FileCacheStore<T>(directory, name);
+}
+
+/**
+ * Entries, pending loads and counters of a cache for one instance
+ */
+interface CachePartition<T> {
+  instance: string;
+  store: CacheStore<T>;
+  pending: Map<string, Promise<T>>;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+}
+
+/**
+ * Cache with separate entries per Efecte instance
+ * Every operation works on the partition of the instance selected for the current
+ * tool call (or the instance given in the options).
+ */
 export class Cache<T> {
-  private cache: Map<string, CacheEntry<T>> = new Map();
-  private readonly name: string;
+  private partitions: Map<string, CachePartition<T>> = new Map();
+  readonly name: string;
+  readonly memoryOnly: boolean;
+  readonly limits: CacheLimits;
+  // How long expired entries are kept for stale-while-revalidate, 0 when disabled
+  private readonly staleTtlMs: number;
+  private readonly options: CacheOptions;
 
-  constructor(name: string) {
+  constructor(name: string, options: CacheOptions = {}) {
     this.name = name;
+    this.options = options;
+    this.memoryOnly = options.memoryOnly ?? false;
+    this.limits = efecteConfig.caching.limits.caches[name] ?? efecteConfig.caching.limits.default;
+    this.staleTtlMs = options.staleWhileRevalidate ? efecteConfig.caching.staleTTL : 0;
     cacheRegistry.add(this);
   }
 
+  /**
+   * Partition of the current instance, created on first use
+   */
+  private get partition(): CachePartition<T> {
+    const profile = getInstanceProfile(this.options.instance);
+    let partition = this.partitions.get(profile.name);
+    if (!partition) {
+      partition = {
+        instance: profile.name,
+        store: createStore<T>(this.name, this.options, profile),
+        pending: new Map(),
+        hits: 0,
+        staleHits: 0,
+        misses: 0,
+        evictions: 0,
+        invalidations: 0,
+      };
+      this.partitions.set(profile.name, partition);
+    }
+    return partition;
+  }
+
   set(key: string, value: T, ttlMs: number): void {
-    const expiresAt = Date.now() + ttlMs;
-    this.cache.set(key, { value, expiresAt });
+    this.write(this.partition, key, value, ttlMs);
+  }
+
+  private write(partition: CachePartition<T>, key: string, value: T, ttlMs: number): void {
+    const now = Date.now();
+    partition.store.set(key, {
+      value,
+      expiresAt: now + ttlMs,
+      storedAt: now,
+      ...(this.limits.maxBytes > 0 && { bytes: approximateBytes(value) }),
+    });
     logger.debug(`Cache [${this.name}]: Set key '${key}' with TTL ${ttlMs}ms`);
+    this.enforceLimits(partition, key);
+  }
+
+  /**
+   * Evict least recently used entries until the partition is within the limits
+   * Expired entries go first; the entry just written is never evicted.
+   */
+  private enforceLimits(partition: CachePartition<T>, keep: string): void {
+    const { maxEntries, maxBytes } = this.limits;
+    const withinLimits = (count: number, bytes: number) =>
+      (maxEntries === 0 || count <= maxEntries) && (maxBytes === 0 || bytes <= maxBytes);
+
+    let entries = partition.store.entries();
+    if (withinLimits(entries.length, maxBytes > 0 ? totalBytes(entries) : 0)) {
+      return;
+    }
+
+    this.cleanPartition(partition);
+    entries = partition.store.entries();
+    let count = entries.length;
+    let bytes = maxBytes > 0 ? totalBytes(entries) : 0;
+    const evicted = new Set<string>();
+    for (const [key, entry] of entries) {
+      if (withinLimits(count, bytes)) {
+        break;
+      }
+      if (key === keep) {
+        continue;
+      }
+      evicted.add(key);
+      count--;
+      bytes -= entry.bytes ?? approximateBytes(entry.value);
+    }
+
+    if (evicted.size > 0) {
+      partition.store.removeWhere((_entry, key) => evicted.has(key));
+      partition.evictions += evicted.size;
+      logger.debug(`Cache [${this.name}]: Evicted ${evicted.size} least recently used entries`);
+    }
   }
 
   get(key: string): T | null {
-    const entry = this.cache.get(key);
+    const partition = this.partition;
+    const entry = partition.store.get(key);
     
     if (!entry) {
+      partition.misses++;
       logger.debug(`Cache [${this.name}]: Miss for key '${key}'`);
       return null;
     }
 
     if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+      // Entries within the stale window stay for getOrLoad
+      if (Date.now() > entry.expiresAt + this.staleTtlMs) {
+        partition.store.delete(key);
+        partition.evictions++;
+      }
+      partition.misses++;
       logger.debug(`Cache [${this.name}]: Expired entry for key '${key}'`);
       return null;
     }
 
+    partition.hits++;
+    partition.store.touch(key);
     logger.debug(`Cache [${this.name}]: Hit for key '${key}'`);
     return entry.value;
   }
 
+  /**
+   * Get a value, loading it on a miss
+   * Concurrent loads of the same key share one loader call. With staleWhileRevalidate,
+   * an expired entry is returned immediately while a single refresh runs in the background;
+   * if the refresh fails the stale entry stays until the next attempt.
+   */
+  async getOrLoad(key: string, loader: () => Promise<T>, ttlMs: number): Promise<T> {
+    const partition = this.partition;
+    await partition.store.ready();
+    const entry = partition.store.get(key);
+    const now = Date.now();
+
+    if (entry && now <= entry.expiresAt) {
+      partition.hits++;
+      partition.store.touch(key);
+      logger.debug(`Cache [${this.name}]: Hit for key '${key}'`);
+      return entry.value;
+    }
+
+    if (entry && now <= entry.expiresAt + this.staleTtlMs) {
+      partition.hits++;
+      partition.staleHits++;
+      partition.store.touch(key);
+      logger.debug(`Cache [${this.name}]: Serving stale entry for key '${key}' while refreshing`);
+      this.load(partition, key, loader, ttlMs).catch(error => {
+        logger.warn(`Cache [${this.name}]: Background refresh of '${key}' failed, keeping stale entry`, error);
+      });
+      return entry.value;
+    }
+
+    partition.misses++;
+    logger.debug(`Cache [${this.name}]: Miss for key '${key}'`);
+    return this.load(partition, key, loader, ttlMs);
+  }
+
+  private load(partition: CachePartition<T>, key: string, loader: () => Promise<T>, ttlMs: number): Promise<T> {
+    const existing = partition.pending.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const pending: Promise<T> = loader()
+      .then(value => {
+        // Skip the write if the key was invalidated while loading
+        if (partition.pending.get(key) === pending) {
+          this.write(partition, key, value, ttlMs);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (partition.pending.get(key) === pending) {
+          partition.pending.delete(key);
+        }
+      });
+    partition.pending.set(key, pending);
+    return pending;
+  }
+
   delete(key: string): boolean {
-    const result = this.cache.delete(key);
+    const partition = this.partition;
+    partition.pending.delete(key);
+    const result = partition.store.delete(key);
     if (result) {
+      partition.invalidations++;
       logger.debug(`Cache [${this.name}]: Deleted key '${key}'`);
     }
     return result;
   }
 
   clear(): void {
-    const size = this.cache.size;
-    this.cache.clear();
+    const partition = this.partition;
+    const size = partition.store.size();
+    partition.pending.clear();
+    partition.store.clear();
+    partition.invalidations += size;
     logger.debug(`Cache [${this.name}]: Cleared ${size} entries`);
   }
 
   size(): number {
-    return this.cache.size;
+    return this.partition.store.size();
   }
 
-  cleanExpired(): void {
-    const now = Date.now();
-    let cleaned = 0;
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
-        cleaned++;
-      }
+  keys(): string[] {
+    return this.partition.store.entries().map(([key]) => key);
+  }
+
+  /**
+   * Remove all entries whose key matches the predicate
+   * @returns Number of entries removed
+   */
+  deleteWhere(predicate: (key: string) => boolean): number {
+    const partition = this.partition;
+    for (const key of [...partition.pending.keys()].filter(predicate)) {
+      partition.pending.delete(key);
     }
+    const removed = partition.store.removeWhere((_entry, key) => predicate(key));
+    partition.invalidations += removed;
+    if (removed > 0) {
+      logger.debug(`Cache [${this.name}]: Deleted ${removed} entries`);
+    }
+    return removed;
+  }
+
+  /**
+   * Keys with their age and remaining lifetime
+   */
+  describeEntries(): CacheEntryInfo[] {
+    const now = Date.now();
+    return this.partition.store.entries().map(([key, entry]) => ({
+      key,
+      ageMs: entry.storedAt !== undefined ? now - entry.storedAt : null,
+      expiresInMs: entry.expiresAt - now,
+      expired: now > entry.expiresAt,
+    }));
+  }
+
+  stats(): CacheStats {
+    const partition = this.partition;
+    const ages = this.describeEntries()
+      .map(entry => entry.ageMs)
+      .filter((age): age is number => age !== null);
+    const entries = partition.store.entries();
+    const lookups = partition.hits + partition.misses;
+    return {
+      name: this.name,
+      instance: partition.instance,
+      storage: partition.store.type,
+      memoryOnly: this.memoryOnly,
+      size: entries.length,
+      approximateBytes: totalBytes(entries),
+      limits: this.limits,
+      hits: partition.hits,
+      staleHits: partition.staleHits,
+      misses: partition.misses,
+      hitRatio: lookups > 0 ? Math.round((partition.hits / lookups) * 1000) / 1000 : null,
+      evictions: partition.evictions,
+      invalidations: partition.invalidations,
+      oldestEntryAgeMs: ages.length > 0 ? Math.max(...ages) : null,
+      newestEntryAgeMs: ages.length > 0 ? Math.min(...ages) : null,
+    };
+  }
+
+  private cleanPartition(partition: CachePartition<T>): number {
+    const now = Date.now();
+    const cleaned = partition.store.removeWhere(entry => now > entry.expiresAt + this.staleTtlMs);
+    partition.evictions += cleaned;
     
     if (cleaned > 0) {
-      logger.debug(`Cache [${this.name}]: Cleaned ${cleaned} expired entries`);
+      logger.debug(`Cache [${this.name}]: Cleaned ${cleaned} expired entries of instance ${partition.instance}`);
+    }
+    return cleaned;
+  }
+
+  /**
+   * Remove expired entries of all instances
+   * @returns Number of entries removed
+   */
+  cleanExpired(): number {
+    let cleaned = 0;
+    for (const partition of this.partitions.values()) {
+      cleaned += this.cleanPartition(partition);
     }
+    return cleaned;
+  }
+
+  /**
+   * Write pending changes of all instances to storage
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.partitions.values()].map(partition => partition.store.flush()));
   }
 
   // Remove from registry when cache is no longer needed
   destroy(): void {
     cacheRegistry.delete(this);
-    this.clear();
+    for (const partition of this.partitions.values()) {
+      partition.pending.clear();
+      partition.store.clear();
+    }
+    this.partitions.clear();
   }
 }
 
+/**
+ * Get all registered caches
+ */
+export function listCaches(): Cache<unknown>[] {
+  return [...cacheRegistry];
+}
+
+/**
+ * Write pending changes of all caches stored in files
+ */
+export async function flushCaches(): Promise<void> {
+  await Promise.all([...cacheRegistry].map(cache => cache.flush()));
+}
+
 /**
  * Start scheduled cleanup of all registered caches
  * Runs every 5 minutes by default
@@ -98,10 +446,7 @@ export function startCacheCleanup(intervalMs: number = 5 * 60 * 1000): void {
   cleanupInterval = setInterval(() => {
     let totalCleaned = 0;
     for (const cache of cacheRegistry) {
-      const beforeSize = cache.size();
-      cache.cleanExpired();
-      const afterSize = cache.size();
-      totalCleaned += beforeSize - afterSize;
+      totalCleaned += cache.cleanExpired();
     }
     
     if (totalCleaned > 0) {
@@ -1,6 +1,10 @@
 import { config } from 'dotenv';
-import { EfecteConfig } from '../types/efecte.js';
+import { homedir } from 'os';
+import { join } from 'path';
+import { CacheLimits, CacheStorageType, EfecteConfig, InstanceProfile } from '../types/efecte.js';
 import { validateUrl, validatePort, validateTimeout, validatePaginationLimit } from './validation.js';
+import { getRequestContext } from './request-context.js';
+import { NotFoundError } from './errors.js';
 
 config();
 
@@ -28,14 +32,108 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return num;
 }
 
-// Validate and build configuration
-function buildConfig(): EfecteConfig {
-  const baseUrl = getEnvVar('EFECTE_BASE_URL');
-  validateUrl(baseUrl, 'EFECTE_BASE_URL');
-  
+function parseCacheStorage(value: string, key: string): CacheStorageType {
+  const storage = value.trim().toLowerCase();
+  if (storage !== 'memory' && storage !== 'file') {
+    throw new Error(`${key} must be either "memory" or "file", got: ${value}`);
+  }
+  return storage;
+}
+
+// Comma-separated list, undefined when the variable is not set
+function getEnvList(key: string): string[] | undefined {
+  const value = process.env[key];
+  if (!value) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Per-cache backends, e.g. "templates=file,reference-values=file"
+function getEnvCacheStorageOverrides(key: string): Record<string, CacheStorageType> {
+  const value = process.env[key];
+  const overrides: Record<string, CacheStorageType> = {};
+  if (!value) return overrides;
+  for (const pair of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [name, storage] = pair.split('=').map(p => p.trim());
+    if (!name || !storage) {
+      throw new Error(`Invalid entry in ${key}: "${pair}", expected <cache name>=<memory|file>`);
+    }
+    overrides[name] = parseCacheStorage(storage, key);
+  }
+  return overrides;
+}
+
+// Per-cache limits, e.g. "reference-values=200:5000000" (maxEntries[:maxBytes], 0 for no limit)
+function getEnvCacheLimitOverrides(key: string, defaults: CacheLimits): Record<string, CacheLimits> {
+  const value = process.env[key];
+  const overrides: Record<string, CacheLimits> = {};
+  if (!value) return overrides;
+  for (const pair of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [name, limits] = pair.split('=').map(p => p.trim());
+    const [maxEntries, maxBytes] = (limits || '').split(':').map(p => p.trim());
+    const entries = Number(maxEntries);
+    const bytes = maxBytes !== undefined ? Number(maxBytes) : defaults.maxBytes;
+    if (!name || !maxEntries || !Number.isInteger(entries) || entries < 0 || !Number.isInteger(bytes) || bytes < 0) {
+      throw new Error(`Invalid entry in ${key}: "${pair}", expected <cache name>=<maxEntries>[:<maxBytes>]`);
+    }
+    overrides[name] = { maxEntries: entries, maxBytes: bytes };
+  }
+  return overrides;
+}
+
+// Instance names become part of environment variable names and cache directories
+const INSTANCE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Connection profile from <prefix>_BASE_URL, _API_PATH, _USERNAME, _PASSWORD and _TIMEOUT
+function buildProfile(name: string, prefix: string, defaultApiPath: string, defaultTimeout: number): InstanceProfile {
+  const baseUrl = getEnvVar(`${prefix}_BASE_URL`);
+  validateUrl(baseUrl, `${prefix}_BASE_URL`);
+
+  const timeout = getEnvNumber(`${prefix}_TIMEOUT`, defaultTimeout);
+  validateTimeout(timeout, 1000, 300000, `${prefix}_TIMEOUT`);
+
+  return {
+    name,
+    baseUrl,
+    apiPath: getEnvVar(`${prefix}_API_PATH`, defaultApiPath),
+    username: getEnvVar(`${prefix}_USERNAME`),
+    password: getEnvVar(`${prefix}_PASSWORD`),
+    timeout,
+  };
+}
+
+// EFECTE_BASE_URL etc. define the instance "default", EFECTE_INSTANCES names further
+// instances configured with EFECTE_INSTANCE_<NAME>_BASE_URL etc.
+function buildInstances(): Record<string, InstanceProfile> {
+  const apiPath = getEnvVar('EFECTE_API_PATH', '/rest-api/itsm/v1');
   const timeout = getEnvNumber('EFECTE_TIMEOUT', 30000);
   validateTimeout(timeout, 1000, 300000, 'EFECTE_TIMEOUT');
-  
+
+  const names = (process.env.EFECTE_INSTANCES || '').split(',').map(n => n.trim()).filter(Boolean);
+  const instances: Record<string, InstanceProfile> = {};
+  if (process.env.EFECTE_BASE_URL || names.length === 0) {
+    instances.default = buildProfile('default', 'EFECTE', apiPath, timeout);
+  }
+
+  for (const name of names) {
+    if (!INSTANCE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid instance name in EFECTE_INSTANCES: "${name}", use letters, digits, "_" and "-"`);
+    }
+    if (Object.hasOwn(instances, name)) {
+      throw new Error(`Instance "${name}" is configured more than once`);
+    }
+    instances[name] = buildProfile(name, `EFECTE_INSTANCE_${name.toUpperCase().replace(/-/g, '_')}`, apiPath, timeout);
+  }
+  return instances;
+}
+
+// Validate and build configuration
+function buildConfig(): EfecteConfig {
+  const instances = buildInstances();
+  const defaultInstance = getEnvVar('EFECTE_DEFAULT_INSTANCE', instances.default ? 'default' : Object.keys(instances)[0]);
+  if (!Object.hasOwn(instances, defaultInstance)) {
+    throw new Error(`EFECTE_DEFAULT_INSTANCE "${defaultInstance}" is not a configured instance (${Object.keys(instances).join(', ')})`);
+  }
+
   const defaultLimit = getEnvNumber('EFECTE_PAGINATION_DEFAULT_LIMIT', 50);
   validatePaginationLimit(defaultLimit);
   
@@ -70,20 +168,78 @@ function buildConfig(): EfecteConfig {
     throw new Error(`EFECTE_LOGGING_LEVEL must be one of: ${validLogLevels.join(', ')}`);
   }
   
+  const retryMaxAttempts = getEnvNumber('EFECTE_RETRY_MAX_ATTEMPTS', 3);
+  if (retryMaxAttempts < 1 || retryMaxAttempts > 10) {
+    throw new Error('EFECTE_RETRY_MAX_ATTEMPTS must be between 1 and 10');
+  }
+
+  const retryBaseDelay = getEnvNumber('EFECTE_RETRY_BASE_DELAY', 500);
+  const retryMaxDelay = getEnvNumber('EFECTE_RETRY_MAX_DELAY', 10000);
+  if (retryBaseDelay < 0 || retryMaxDelay < retryBaseDelay) {
+    throw new Error('EFECTE_RETRY_BASE_DELAY must be positive and not greater than EFECTE_RETRY_MAX_DELAY');
+  }
+
+  const circuitFailureThreshold = getEnvNumber('EFECTE_CIRCUIT_BREAKER_FAILURE_THRESHOLD', 5);
+  if (circuitFailureThreshold < 0) {
+    throw new Error('EFECTE_CIRCUIT_BREAKER_FAILURE_THRESHOLD must be 0 (disabled) or positive');
+  }
+
+  const circuitOpenDuration = getEnvNumber('EFECTE_CIRCUIT_BREAKER_OPEN_DURATION', 30000);
+  if (circuitOpenDuration < 1000) {
+    throw new Error('EFECTE_CIRCUIT_BREAKER_OPEN_DURATION must be at least 1000ms');
+  }
+
+  const throttleRate = getEnvNumber('EFECTE_THROTTLE_REQUESTS_PER_SECOND', 10);
+  const throttleBurst = getEnvNumber('EFECTE_THROTTLE_BURST', 20);
+  const throttleMaxConcurrent = getEnvNumber('EFECTE_THROTTLE_MAX_CONCURRENT', 8);
+  if (throttleRate < 0 || throttleMaxConcurrent < 0) {
+    throw new Error('EFECTE_THROTTLE_REQUESTS_PER_SECOND and EFECTE_THROTTLE_MAX_CONCURRENT must be 0 (no limit) or positive');
+  }
+  if (throttleBurst < 1) {
+    throw new Error('EFECTE_THROTTLE_BURST must be at least 1');
+  }
+
+  const cacheStorage = parseCacheStorage(getEnvVar('EFECTE_CACHE_STORAGE', 'memory'), 'EFECTE_CACHE_STORAGE');
+  const cacheStorageOverrides = getEnvCacheStorageOverrides('EFECTE_CACHE_STORAGE_OVERRIDES');
+
+  const cacheLimits: CacheLimits = {
+    maxEntries: getEnvNumber('EFECTE_CACHE_MAX_ENTRIES', 1000),
+    maxBytes: getEnvNumber('EFECTE_CACHE_MAX_BYTES', 50 * 1024 * 1024),
+  };
+  if (cacheLimits.maxEntries < 0 || cacheLimits.maxBytes < 0) {
+    throw new Error('EFECTE_CACHE_MAX_ENTRIES and EFECTE_CACHE_MAX_BYTES must be 0 (no limit) or positive');
+  }
+  const cacheLimitOverrides = getEnvCacheLimitOverrides('EFECTE_CACHE_LIMITS', cacheLimits);
+
   const transportDefault = getEnvVar('EFECTE_TRANSPORT_DEFAULT', 'stdio');
   if (transportDefault !== 'stdio' && transportDefault !== 'http') {
     throw new Error('EFECTE_TRANSPORT_DEFAULT must be either "stdio" or "http"');
   }
 
   return {
-    baseUrl,
-    apiPath: getEnvVar('EFECTE_API_PATH', '/rest-api/itsm/v1'),
-    username: getEnvVar('EFECTE_USERNAME'),
-    password: getEnvVar('EFECTE_PASSWORD'),
-    timeout,
+    defaultInstance,
+    instances,
+    access: {
+      readOnly: getEnvBool('EFECTE_READ_ONLY', false),
+      allowedTools: getEnvList('EFECTE_ALLOWED_TOOLS'),
+      deniedTools: getEnvList('EFECTE_DENIED_TOOLS') ?? [],
+      allowedTemplates: getEnvList('EFECTE_ALLOWED_TEMPLATES'),
+      deniedTemplates: getEnvList('EFECTE_DENIED_TEMPLATES') ?? [],
+      sharedJournal: getEnvBool('EFECTE_SHARED_JOURNAL', false),
+    },
     caching: {
       templatesTTL: getEnvNumber('EFECTE_CACHE_TEMPLATES_TTL', 300000),
       authTokenTTL: getEnvNumber('EFECTE_CACHE_AUTH_TOKEN_TTL', 3300000),
+      staleTTL: getEnvNumber('EFECTE_CACHE_STALE_TTL', 3600000),
+      storage: {
+        default: cacheStorage,
+        directory: getEnvVar('EFECTE_CACHE_DIR', join(homedir(), '.cache', 'efecte-mcp')),
+        caches: cacheStorageOverrides,
+      },
+      limits: {
+        default: cacheLimits,
+        caches: cacheLimitOverrides,
+      },
     },
     pagination: {
       defaultLimit,
@@ -111,17 +267,45 @@ function buildConfig(): EfecteConfig {
       maxRequestsPerMinute,
       tokenRefreshThreshold,
     },
+    retry: {
+      maxAttempts: retryMaxAttempts,
+      baseDelay: retryBaseDelay,
+      maxDelay: retryMaxDelay,
+      jitter: getEnvBool('EFECTE_RETRY_JITTER', true),
+    },
+    circuitBreaker: {
+      failureThreshold: circuitFailureThreshold,
+      openDuration: circuitOpenDuration,
+    },
+    throttle: {
+      requestsPerSecond: throttleRate,
+      burst: throttleBurst,
+      maxConcurrent: throttleMaxConcurrent,
+    },
   };
 }
 
 export const efecteConfig: EfecteConfig = buildConfig();
 
-export function getApiUrl(path: string = ''): string {
-  const baseUrl = efecteConfig.baseUrl.replace(/\/$/, '');
-  const apiPath = efecteConfig.apiPath.replace(/^\//, '').replace(/\/$/, '');
+/**
+ * Get the connection profile of an Efecte instance
+ * @param name - Instance name, by default the instance selected for the current tool call
+ */
+export function getInstanceProfile(name?: string): InstanceProfile {
+  const instance = name ?? getRequestContext()?.instance ?? efecteConfig.defaultInstance;
+  const profile = Object.hasOwn(efecteConfig.instances, instance) ? efecteConfig.instances[instance] : undefined;
+  if (!profile) {
+    throw new NotFoundError(`Unknown Efecte instance "${instance}". Configured instances: ${Object.keys(efecteConfig.instances).join(', ')}`);
+  }
+  return profile;
+}
+
+export function getApiUrl(path: string = '', profile: InstanceProfile = getInstanceProfile()): string {
+  const baseUrl = profile.baseUrl.replace(/\/$/, '');
+  const apiPath = profile.apiPath.replace(/^\//, '').replace(/\/$/, '');
   const cleanPath = path.replace(/^\//, '');
   
   return cleanPath 
     ? `${baseUrl}/${apiPath}/${cleanPath}`
     : `${baseUrl}/${apiPath}`;
-}
\ No newline at end of file
+}
@@ -0,0 +1,161 @@
+import { prepareDataCardInput, DataCardData } from './datacard-input.js';
+import { diffAttribute } from './datacard-diff.js';
+import { flattenElement, FlatValue } from './flatten.js';
+import { RESTDataCard, RESTDataCardElement, RESTTemplateInfo } from '../types/efecte.js';
+import { ValidationError } from './errors.js';
+
+// Attribute Efecte stamps with the time of the last modification
+const UPDATED_ATTRIBUTE = 'updated';
+
+/**
+ * Preconditions for a write, taken from the state the caller last read
+ */
+export interface ConcurrencyGuard {
+  // Attribute values as the caller read them, raw or flat
+  expectedValues?: Record<string, unknown>;
+  // ISO 8601 timestamp; the write is aborted if the card's updated attribute is later
+  ifUnmodifiedSince?: string;
+}
+
+export interface AttributeConflict {
+  attribute: string;
+  expected: FlatValue | FlatValue[];
+  actual: FlatValue | FlatValue[];
+}
+
+export interface ConflictReport {
+  templateCode: string;
+  dataCardId: string;
+  conflicts: AttributeConflict[];
+  modified?: { since: string; updated: string };
+  // Current values of the attributes the write would touch
+  current: Record<string, FlatValue | FlatValue[]>;
+}
+
+/**
+ * Check whether any precondition is set
+ */
+export function hasConcurrencyGuard(guard: ConcurrencyGuard): boolean {
+  return (guard.expectedValues !== undefined && Object.keys(guard.expectedValues).length > 0)
+    || guard.ifUnmodifiedSince !== undefined;
+}
+
+/**
+ * Parse a timestamp in ISO 8601 or Efecte's dd.MM.yyyy HH:mm[:ss] format (local time)
+ * @returns Milliseconds since the epoch, NaN if the value cannot be parsed
+ */
+function parseTimestamp(value: string): number {
+  const european = value.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (european) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = european;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)).getTime();
+  }
+  return Date.parse(value);
+}
+
+/**
+ * Validate the guard and convert expected values like write input
+ * @returns Expected values in request shape
+ */
+export function prepareConcurrencyGuard(templateInfo: RESTTemplateInfo, guard: ConcurrencyGuard): DataCardData | undefined {
+  if (guard.ifUnmodifiedSince !== undefined && isNaN(parseTimestamp(guard.ifUnmodifiedSince))) {
+    throw new ValidationError(`Invalid ifUnmodifiedSince "${guard.ifUnmodifiedSince}": expected an ISO 8601 timestamp`);
+  }
+  if (!guard.expectedValues) {
+    return undefined;
+  }
+
+  const prepared = prepareDataCardInput(templateInfo, { data: guard.expectedValues });
+  if (prepared.issues.length > 0) {
+    throw new ValidationError(
+      `Invalid expectedValues for template ${templateInfo.code}:\n${prepared.issues.map(issue => `- ${issue.message}`).join('\n')}`,
+      prepared.issues.map(issue => ({ attributeCode: issue.attribute, message: issue.message, error: 'invalid_input' }))
+    );
+  }
+  return prepared.data;
+}
+
+/**
+ * Compare the freshly read data card against the caller's preconditions
+ * @param card - Data card as read right before the write
+ * @param expected - Prepared expected values (see prepareConcurrencyGuard)
+ * @param ifUnmodifiedSince - Timestamp the caller read the card at
+ * @param touched - Attributes the write would change, reported with their current values
+ * @returns Conflict report, or null if the write may proceed
+ */
+export function checkConcurrency(
+  templateInfo: RESTTemplateInfo,
+  dataCardId: string,
+  card: RESTDataCard,
+  expected: DataCardData | undefined,
+  ifUnmodifiedSince: string | undefined,
+  touched: string[]
+): ConflictReport | null {
+  const attributes = templateInfo.attributes || {};
+  const conflicts: AttributeConflict[] = [];
+
+  for (const [attributeCode, element] of Object.entries(expected || {})) {
+    const currentElement = card.data?.[attributeCode];
+    const type = currentElement?.type ?? attributes[attributeCode]?.type ?? 'string';
+    const multiValue = attributes[attributeCode]?.multiValue;
+    // Expected worklog entries are compared as plain values, writes append to worklogs but expectations do not
+    const diff = diffAttribute(attributeCode, currentElement?.values || [], element.values, type === 'worklog' ? 'string' : type, multiValue);
+    if (diff) {
+      conflicts.push({
+        attribute: attributeCode,
+        expected: flattenElement({ type, values: element.values } as RESTDataCardElement, multiValue),
+        actual: flattenElement({ type, values: currentElement?.values || [] } as RESTDataCardElement, multiValue),
+      });
+    }
+  }
+
+  let modified: ConflictReport['modified'];
+  if (ifUnmodifiedSince !== undefined) {
+    const updated = card.data?.[UPDATED_ATTRIBUTE]?.values?.[0]?.value;
+    if (updated === undefined || updated === null) {
+      throw new ValidationError(`Data card ${dataCardId} has no ${UPDATED_ATTRIBUTE} attribute, use expectedValues instead of ifUnmodifiedSince`);
+    }
+    if (parseTimestamp(String(updated)) > parseTimestamp(ifUnmodifiedSince)) {
+      modified = { since: ifUnmodifiedSince, updated: String(updated) };
+    }
+  }
+
+  if (conflicts.length === 0 && !modified) {
+    return null;
+  }
+
+  const current: ConflictReport['current'] = {};
+  for (const attributeCode of touched) {
+    const element = card.data?.[attributeCode];
+    current[attributeCode] = element
+      ? flattenElement(element, attributes[attributeCode]?.multiValue)
+      : flattenElement({ type: 'string', values: [] }, attributes[attributeCode]?.multiValue);
+  }
+
+  return {
+    templateCode: card.templateCode ?? templateInfo.code,
+    dataCardId,
+    conflicts,
+    ...(modified && { modified }),
+    current,
+  };
+}
+
+/**
+ * Format a conflict report as an error message
+ */
+export function describeConflict(report: ConflictReport): string {
+  const lines = [`Data card ${report.dataCardId} in template ${report.templateCode} was modified since it was read, nothing was written:`];
+  if (report.modified) {
+    lines.push(`- updated at ${report.modified.updated}, after ${report.modified.since}`);
+  }
+  for (const conflict of report.conflicts) {
+    lines.push(`- ${conflict.attribute}: expected ${JSON.stringify(conflict.expected)}, found ${JSON.stringify(conflict.actual)}`);
+  }
+  const touched = Object.entries(report.current);
+  if (touched.length > 0) {
+    lines.push('Current values:');
+    lines.push(...touched.map(([attributeCode, value]) => `- ${attributeCode}: ${JSON.stringify(value)}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,149 @@
+import { flattenValue, flattenElement, FlatValue } from './flatten.js';
+import { DataCardData } from './datacard-input.js';
+import { RESTDataCard, RESTDataCardElement, RESTTemplateInfo, RESTValueElement } from '../types/efecte.js';
+
+/**
+ * Single attribute value in raw and human-readable form
+ */
+export interface DiffValue {
+  raw: RESTValueElement;
+  value: FlatValue;
+}
+
+/**
+ * Difference between the current and proposed values of one attribute
+ * - added: the attribute was empty and gets values
+ * - removed: the attribute had values and becomes empty
+ * - changed: values are added to or removed from a non-empty attribute
+ */
+export interface AttributeDiff {
+  attribute: string;
+  type: string;
+  change: 'added' | 'removed' | 'changed';
+  added: DiffValue[];
+  removed: DiffValue[];
+  before: FlatValue | FlatValue[];
+  after: FlatValue | FlatValue[];
+}
+
+export interface DataCardDiff {
+  templateCode: string;
+  dataCardId: string;
+  name?: string;
+  hasChanges: boolean;
+  folder?: { before: string | null; after: string };
+  attributes: AttributeDiff[];
+  // Attributes in the proposed data whose values are already current
+  unchanged: string[];
+}
+
+/**
+ * Check whether two value elements denote the same value for the attribute type
+ * Static values compare by code, references by data card ID when both sides have one and by name otherwise.
+ */
+function sameValue(a: RESTValueElement, b: RESTValueElement, type: string): boolean {
+  switch (type) {
+    case 'static-value':
+      if (a.code !== undefined && b.code !== undefined) {
+        return a.code === b.code;
+      }
+      return String(a.value ?? '') === String(b.value ?? '');
+    case 'reference':
+    case 'external-reference':
+      if (a.dataCardId !== undefined && b.dataCardId !== undefined) {
+        return a.dataCardId === b.dataCardId;
+      }
+      return a.name !== undefined && b.name !== undefined && a.name.toLowerCase() === b.name.toLowerCase();
+    case 'number':
+      return Number(a.value) === Number(b.value);
+    default:
+      if (a.value === undefined && b.value === undefined) {
+        return a.name === b.name;
+      }
+      return String(a.value ?? '') === String(b.value ?? '');
+  }
+}
+
+function toDiffValues(values: RESTValueElement[], type: string): DiffValue[] {
+  return values.map(value => ({ raw: value, value: flattenValue(value, type) }));
+}
+
+/**
+ * Compare current and proposed values of one attribute
+ * Worklog entries are always appended by Efecte, so proposed entries are added and none are removed.
+ * @returns Diff, or null if the proposed values equal the current ones
+ */
+export function diffAttribute(
+  attributeCode: string,
+  current: RESTValueElement[],
+  proposed: RESTValueElement[],
+  type: string,
+  multiValue?: boolean
+): AttributeDiff | null {
+  const after = type === 'worklog' ? [...current, ...proposed] : proposed;
+  const added = after.filter(value => !current.some(existing => sameValue(existing, value, type)));
+  const removed = current.filter(value => !after.some(candidate => sameValue(candidate, value, type)));
+
+  if (added.length === 0 && removed.length === 0) {
+    return null;
+  }
+
+  let change: AttributeDiff['change'] = 'changed';
+  if (current.length === 0) {
+    change = 'added';
+  } else if (after.length === 0) {
+    change = 'removed';
+  }
+
+  return {
+    attribute: attributeCode,
+    type,
+    change,
+    added: toDiffValues(added, type),
+    removed: toDiffValues(removed, type),
+    before: flattenElement({ type, values: current } as RESTDataCardElement, multiValue),
+    after: flattenElement({ type, values: after } as RESTDataCardElement, multiValue),
+  };
+}
+
+/**
+ * Compare a data card against proposed modify request data
+ * Only attributes present in the proposed data are compared, like a PATCH only touches those.
+ * @param dataCardId - ID of the compared data card
+ * @param card - Current data card
+ * @param proposed - Prepared folder code and attribute data (see prepareDataCardInput)
+ * @param templateInfo - Template definition for attribute types and multi-value flags
+ */
+export function diffDataCard(
+  dataCardId: string,
+  card: RESTDataCard,
+  proposed: { folderCode?: string; data?: DataCardData },
+  templateInfo: RESTTemplateInfo
+): DataCardDiff {
+  const attributes: AttributeDiff[] = [];
+  const unchanged: string[] = [];
+
+  for (const [attributeCode, element] of Object.entries(proposed.data || {})) {
+    const currentElement = card.data?.[attributeCode];
+    const attribute = templateInfo.attributes?.[attributeCode];
+    const type = currentElement?.type ?? attribute?.type ?? 'string';
+    const diff = diffAttribute(attributeCode, currentElement?.values || [], element.values, type, attribute?.multiValue);
+    if (diff) {
+      attributes.push(diff);
+    } else {
+      unchanged.push(attributeCode);
+    }
+  }
+
+  const folderChanged = proposed.folderCode !== undefined && proposed.folderCode !== card.folderCode;
+
+  return {
+    templateCode: card.templateCode ?? templateInfo.code,
+    dataCardId,
+    ...(card.name !== undefined && { name: card.name }),
+    hasChanges: folderChanged || attributes.length > 0,
+    ...(folderChanged && { folder: { before: card.folderCode ?? null, after: proposed.folderCode! } }),
+    attributes,
+    unchanged,
+  };
+}
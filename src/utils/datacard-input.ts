@@ -0,0 +1,276 @@
+import { findSimilarMatch, findReferenceCards } from './reference-attributes.js';
+import { isTemplateAllowed } from './access.js';
+import { formatEqlDate } from './eql.js';
+import { findStaticValue } from './template-registry.js';
+import { ValidationError } from './errors.js';
+import { RESTAttribute, RESTTemplateInfo, RESTValueElement } from '../types/efecte.js';
+
+/**
+ * Attribute data in the shape expected by create and modify requests
+ */
+export type DataCardData = { [key: string]: { values: RESTValueElement[] } };
+
+export interface DataCardInputIssue {
+  attribute?: string;
+  message: string;
+}
+
+export interface PreparedDataCardInput {
+  folderCode?: string;
+  data?: DataCardData;
+  issues: DataCardInputIssue[];
+}
+
+/**
+ * Reference given by name and the data card it was resolved to
+ */
+export interface ResolvedReference {
+  attribute: string;
+  name: string;
+  templateCode: string;
+  dataCardId: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Coerce a single input value into a RESTValueElement for the attribute type
+ * Objects are treated as RESTValueElements already; static values given by object are checked and completed.
+ * @returns Value element or an issue message
+ */
+function coerceValue(
+  input: unknown,
+  attributeCode: string,
+  attribute: RESTAttribute,
+  templateInfo: RESTTemplateInfo
+): { value: RESTValueElement } | { issue: string } {
+  if (input === null || input === undefined) {
+    return { issue: 'null values are not allowed, use efecte_delete_attribute_value to clear an attribute' };
+  }
+
+  if (attribute.type === 'static-value') {
+    const options = attribute.values || [];
+    let text: string;
+    if (isPlainObject(input)) {
+      text = input.code !== undefined ? String(input.code) : String(input.value ?? '');
+    } else {
+      text = String(input);
+    }
+
+    if (options.length === 0) {
+      return { value: isPlainObject(input) ? input : { code: text } };
+    }
+
+    const option = findStaticValue(templateInfo, attributeCode, text);
+    if (!option) {
+      const suggestion = findSimilarMatch(text, options.map(candidate => String(candidate.value)));
+      const hint = suggestion ? ` Did you mean "${suggestion}"?` : '';
+      return {
+        issue: `Invalid value "${text}" for static value attribute ${attributeCode}. Allowed values: ${options.map(candidate => `${candidate.code} (${candidate.value})`).join(', ')}.${hint}`,
+      };
+    }
+    return { value: { code: option.code, value: option.value } };
+  }
+
+  // Worklog entries in flat format carry their text in "text"
+  if (attribute.type === 'worklog' && isPlainObject(input) && input.text !== undefined && input.value === undefined) {
+    return { value: { value: String(input.text) } };
+  }
+
+  if (isPlainObject(input)) {
+    return { value: input as RESTValueElement };
+  }
+
+  switch (attribute.type) {
+    case 'reference': {
+      const text = String(input).trim();
+      // Numeric input is a data card ID, anything else is the name of the referenced data card
+      return { value: /^[0-9]+$/.test(text) ? { dataCardId: text } : { name: text } };
+    }
+    case 'date': {
+      if (typeof input !== 'string' && typeof input !== 'number') {
+        return { issue: `Invalid date for attribute ${attributeCode}: expected an ISO 8601 string` };
+      }
+      const formatted = formatEqlDate(input);
+      if (!formatted) {
+        return { issue: `Invalid date "${input}" for attribute ${attributeCode}: expected an ISO 8601 string such as 2025-01-31 or 2025-01-31T08:00:00Z` };
+      }
+      return { value: { value: formatted } };
+    }
+    case 'number': {
+      const number = typeof input === 'number' ? input : Number(String(input).trim());
+      if (typeof input === 'boolean' || String(input).trim() === '' || isNaN(number)) {
+        return { issue: `Invalid number "${input}" for attribute ${attributeCode}` };
+      }
+      return { value: { value: number } };
+    }
+    default:
+      return { value: { value: String(input) } };
+  }
+}
+
+/**
+ * Validate data card input against the template definition and coerce it into the request shape
+ * - Rejects unknown attribute codes (with suggestions)
+ * - Enforces single values for attributes that are not multi-value
+ * - Checks static values against the allowed codes and accepts static values by code or name
+ * - Checks the folder against the template's allowed folders (by code or name)
+ * - Coerces plain strings, numbers, ISO dates and reference names into RESTValueElements
+ *   (reference names are resolved to data cards by resolveReferenceInput)
+ * - Accepts attributes in raw ({ values: [...] }) and flat (single value or array) format
+ * @param templateInfo - Template definition
+ * @param input - Folder code and attribute data as given by the caller
+ * @returns Prepared folder code and data, and all issues found
+ */
+export function prepareDataCardInput(
+  templateInfo: RESTTemplateInfo,
+  input: { folderCode?: string; data?: Record<string, unknown> }
+): PreparedDataCardInput {
+  const issues: DataCardInputIssue[] = [];
+  const attributes = templateInfo.attributes || {};
+  let folderCode = input.folderCode;
+
+  if (folderCode && templateInfo.allowedFolders && templateInfo.allowedFolders.length > 0) {
+    const folder = templateInfo.allowedFolders.find(candidate => candidate.folderCode === folderCode)
+      || templateInfo.allowedFolders.find(candidate => candidate.folderName.toLowerCase() === folderCode!.toLowerCase());
+    if (folder) {
+      folderCode = folder.folderCode;
+    } else {
+      issues.push({
+        message: `Folder "${folderCode}" is not allowed for template ${templateInfo.code}. Allowed folders: ${templateInfo.allowedFolders.map(candidate => `${candidate.folderCode} (${candidate.folderName})`).join(', ')}`,
+      });
+    }
+  }
+
+  if (!input.data) {
+    return { folderCode, issues };
+  }
+
+  const data: DataCardData = {};
+
+  for (const [attributeCode, attributeInput] of Object.entries(input.data)) {
+    const attribute = attributes[attributeCode];
+    if (!attribute) {
+      const suggestion = findSimilarMatch(attributeCode, Object.keys(attributes));
+      issues.push({
+        attribute: attributeCode,
+        message: `Unknown attribute "${attributeCode}" in template ${templateInfo.code}.${suggestion ? ` Did you mean "${suggestion}"?` : ''}`,
+      });
+      continue;
+    }
+
+    // Raw format is { values: [...] }, flat format is a single value or an array of values
+    let inputValues: unknown[];
+    if (isPlainObject(attributeInput) && Array.isArray(attributeInput.values)) {
+      inputValues = attributeInput.values;
+    } else if (Array.isArray(attributeInput)) {
+      inputValues = attributeInput;
+    } else if (attributeInput === null) {
+      inputValues = [];
+    } else {
+      inputValues = [attributeInput];
+    }
+
+    if (!attribute.multiValue && inputValues.length > 1) {
+      issues.push({
+        attribute: attributeCode,
+        message: `Attribute ${attributeCode} accepts a single value, got ${inputValues.length}`,
+      });
+      continue;
+    }
+
+    const values: RESTValueElement[] = [];
+    for (const value of inputValues) {
+      const coerced = coerceValue(value, attributeCode, attribute, templateInfo);
+      if ('issue' in coerced) {
+        issues.push({ attribute: attributeCode, message: coerced.issue });
+      } else {
+        values.push(coerced.value);
+      }
+    }
+    data[attributeCode] = { values };
+  }
+
+  return { folderCode, data, issues };
+}
+
+/**
+ * Resolve reference values given by name to the data cards of the referenced templates
+ * Names are looked up with an EQL filter on each referenced template (see findReferenceCards), preferring exact matches.
+ * Resolved values get the data card ID; names matching several data cards are added to the issues.
+ * Names matching no data card and values given by data card ID are left as they are for Efecte to handle.
+ * @param templateInfo - Template of the data card being written
+ * @param prepared - Output of prepareDataCardInput, updated in place
+ * @returns The references that were resolved
+ */
+export async function resolveReferenceInput(
+  templateInfo: RESTTemplateInfo,
+  prepared: PreparedDataCardInput
+): Promise<ResolvedReference[]> {
+  const references: ResolvedReference[] = [];
+
+  for (const [attributeCode, element] of Object.entries(prepared.data || {})) {
+    const attribute = templateInfo.attributes?.[attributeCode];
+    if (!attribute || attribute.type !== 'reference') {
+      continue;
+    }
+    // Data cards of templates that are not available on this server are not searched
+    const targets = (attribute.target || []).filter(isTemplateAllowed);
+
+    for (const value of element.values) {
+      if (!value.name || value.dataCardId) {
+        continue;
+      }
+      if (targets.length === 0 && (attribute.target || []).length > 0) {
+        prepared.issues.push({
+          attribute: attributeCode,
+          message: `Reference "${value.name}" for attribute ${attributeCode} cannot be looked up, the referenced template ${attribute.target!.join(', ')} is not available on this server. Give the data card ID instead`,
+        });
+        continue;
+      }
+
+      const matches: { templateCode: string; dataCardId: string; name: string }[] = [];
+      for (const target of targets) {
+        const cards = await findReferenceCards(target, value.name);
+        const exact = cards.filter(card => card.name === value.name);
+        const candidates = exact.length > 0
+          ? exact
+          : cards.filter(card => card.name.toLowerCase() === value.name!.toLowerCase());
+        matches.push(...candidates.map(card => ({ templateCode: target, dataCardId: card.dataCardId, name: card.name })));
+      }
+
+      if (matches.length > 1) {
+        prepared.issues.push({
+          attribute: attributeCode,
+          message: `Reference "${value.name}" for attribute ${attributeCode} matches ${matches.length} data cards in ${targets.join(', ')} (IDs ${matches.map(match => match.dataCardId).join(', ')}). Give the data card ID instead`,
+        });
+      } else if (matches.length === 1) {
+        const [match] = matches;
+        value.dataCardId = match.dataCardId;
+        value.name = match.name;
+        references.push({ attribute: attributeCode, name: match.name, templateCode: match.templateCode, dataCardId: match.dataCardId });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Format input issues as a single error message
+ */
+export function describeInputIssues(templateCode: string, issues: DataCardInputIssue[]): string {
+  return `Invalid data card input for template ${templateCode}:\n${issues.map(issue => `- ${issue.message}`).join('\n')}`;
+}
+
+/**
+ * Error rejecting invalid input, with one entry per issue
+ */
+export function inputValidationError(templateCode: string, issues: DataCardInputIssue[]): ValidationError {
+  return new ValidationError(
+    describeInputIssues(templateCode, issues),
+    issues.map(issue => ({ attributeCode: issue.attribute, message: issue.message, error: 'invalid_input' }))
+  );
+}
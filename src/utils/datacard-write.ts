@@ -0,0 +1,186 @@
+import { getApiClient } from '../api/client.js';
+import { logger } from './logger.js';
+import { extractRestWarnings, RESTWarning } from './errors.js';
+import { recordChange, JournalEntry } from './journal.js';
+import {
+  prepareDataCardInput,
+  resolveReferenceInput,
+  inputValidationError,
+  DataCardData,
+  PreparedDataCardInput,
+  ResolvedReference,
+} from './datacard-input.js';
+import {
+  ApiResponse,
+  RESTDataCard,
+  RESTDataCardCreateRequest,
+  RESTDataCardModifyRequest,
+  RESTDataCardResponse,
+  RESTTemplateInfo,
+} from '../types/efecte.js';
+
+/**
+ * Template and request options shared by the steps of a data card write
+ */
+export interface DataCardWrite {
+  templateCode: string;
+  templateInfo: RESTTemplateInfo;
+  params?: Record<string, string | boolean>;
+  idempotencyKey?: string;
+}
+
+/**
+ * Response of a saved data card with its journal entry and the warnings Efecte reported
+ * An update that only clears attributes has no response.
+ */
+export interface DataCardWriteResult {
+  result?: RESTDataCardResponse;
+  entry: JournalEntry;
+  warnings: RESTWarning[];
+}
+
+/**
+ * Validate and convert write input and resolve reference names, as the create and update tools do
+ * @returns Prepared input without issues and the references resolved by name
+ * @throws ValidationError listing every problem with the input
+ */
+export async function prepareWriteInput(
+  templateInfo: RESTTemplateInfo,
+  input: { folderCode?: string; data?: Record<string, unknown> }
+): Promise<{ prepared: PreparedDataCardInput; references: ResolvedReference[] }> {
+  const prepared = prepareDataCardInput(templateInfo, input);
+  const references = prepared.issues.length > 0 ? [] : await resolveReferenceInput(templateInfo, prepared);
+  if (prepared.issues.length > 0) {
+    throw inputValidationError(templateInfo.code, prepared.issues);
+  }
+  return { prepared, references };
+}
+
+/**
+ * Split the attributes given without values off update data, they are passed to patchDataCard to clear instead
+ * @returns Data with the attributes that have values, and the attributes to clear
+ */
+export function splitClearedAttributes(data: DataCardData = {}): { data: DataCardData; clear: string[] } {
+  const kept: DataCardData = {};
+  const clear: string[] = [];
+  for (const [attributeCode, element] of Object.entries(data)) {
+    if (element.values.length > 0) {
+      kept[attributeCode] = element;
+    } else {
+      clear.push(attributeCode);
+    }
+  }
+  return { data: kept, clear };
+}
+
+function requestOptions(write: DataCardWrite) {
+  return {
+    params: write.params || {},
+    ...(write.idempotencyKey && { idempotencyKey: write.idempotencyKey }),
+  };
+}
+
+function logWarnings(verb: string, dataCardId: string, write: DataCardWrite, warnings: RESTWarning[]): void {
+  if (warnings.length > 0) {
+    logger.warn(`Data card ${dataCardId} ${verb} in ${write.templateCode} with ${warnings.length} warning(s)`, { warnings });
+  }
+}
+
+/**
+ * Create a data card and record it in the undo journal
+ */
+export async function postDataCard(write: DataCardWrite, body: RESTDataCardCreateRequest): Promise<DataCardWriteResult> {
+  const result = await getApiClient().post<RESTDataCardResponse>(`dc/${write.templateCode}/data`, body, requestOptions(write));
+
+  const createdId = result?.dataCard?.dataCardId;
+  const entry = recordChange({
+    action: 'create',
+    templateCode: write.templateCode,
+    dataCardId: createdId ?? '',
+    folder: { next: body.folderCode },
+    changes: Object.entries(body.data || {}).map(([attributeCode, element]) => ({
+      attribute: attributeCode,
+      type: write.templateInfo.attributes?.[attributeCode]?.type,
+      previous: [],
+      next: element.values,
+    })),
+    ...(!createdId && { undoable: false, reason: 'The response did not contain the ID of the created data card' }),
+  });
+
+  const warnings = extractRestWarnings(result);
+  logWarnings('created', createdId ?? '', write, warnings);
+  return { result, entry, warnings };
+}
+
+/**
+ * Move a data card to the trash and keep its values in the undo journal for reference
+ * @param current - Data card as read before the delete
+ */
+export async function trashDataCard(
+  templateCode: string,
+  dataCardId: string,
+  current: RESTDataCard
+): Promise<{ result: ApiResponse; entry: JournalEntry }> {
+  const result = await getApiClient().delete<ApiResponse>(`dc/${templateCode}/data/${dataCardId}`);
+
+  const entry = recordChange({
+    action: 'delete',
+    templateCode,
+    dataCardId,
+    ...(current.name !== undefined && { name: current.name }),
+    changes: Object.entries(current.data || {}).map(([attributeCode, element]) => ({
+      attribute: attributeCode,
+      type: element.type,
+      previous: element.values || [],
+      next: [],
+    })),
+    undoable: false,
+    reason: 'Deleted data cards are moved to the trash and have to be restored in Efecte; the previous values are kept here for reference',
+  });
+  return { result, entry };
+}
+
+/**
+ * Update a data card and record the previous values in the undo journal
+ * Sending an attribute without values does not reliably empty it, so attributes to empty are cleared one by one after the update.
+ * @param current - Data card as read before the update
+ * @param clear - Attributes to clear
+ */
+export async function patchDataCard(
+  write: DataCardWrite,
+  current: RESTDataCard,
+  body: RESTDataCardModifyRequest,
+  clear: string[] = []
+): Promise<DataCardWriteResult> {
+  const path = `dc/${write.templateCode}/data/${body.dataCardId}`;
+  let result: RESTDataCardResponse | undefined;
+  if (Object.keys(body.data || {}).length > 0 || body.folderCode || clear.length === 0) {
+    result = await getApiClient().patch<RESTDataCardResponse>(path, body, requestOptions(write));
+  }
+  for (const attributeCode of clear) {
+    await getApiClient().delete<ApiResponse>(`${path}/${attributeCode}`);
+  }
+
+  const entry = recordChange({
+    action: 'update',
+    templateCode: write.templateCode,
+    dataCardId: body.dataCardId,
+    ...(current.name !== undefined && { name: current.name }),
+    ...(body.folderCode && body.folderCode !== current.folderCode && {
+      folder: { previous: current.folderCode, next: body.folderCode },
+    }),
+    changes: [
+      ...Object.entries(body.data || {}).map(([attributeCode, element]) => ({ attributeCode, values: element.values })),
+      ...clear.map(attributeCode => ({ attributeCode, values: [] })),
+    ].map(({ attributeCode, values }) => ({
+      attribute: attributeCode,
+      type: current.data?.[attributeCode]?.type ?? write.templateInfo.attributes?.[attributeCode]?.type,
+      previous: current.data?.[attributeCode]?.values || [],
+      next: values,
+    })),
+  });
+
+  const warnings = extractRestWarnings(result);
+  logWarnings('updated', body.dataCardId, write, warnings);
+  return { result, entry, warnings };
+}
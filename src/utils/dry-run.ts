@@ -0,0 +1,66 @@
+import { flattenElement, FlatValue } from './flatten.js';
+import { ResolvedReference } from './datacard-input.js';
+import { RESTDataCardElement, RESTTemplateInfo, RESTValueElement } from '../types/efecte.js';
+
+/**
+ * Request a mutating tool would send to the Efecte API
+ */
+export interface DryRunRequest {
+  method: 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  path: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Human-readable value of an attribute before and after the request
+ */
+export interface AttributeChange {
+  before: FlatValue | FlatValue[];
+  after: FlatValue | FlatValue[];
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  message: string;
+  request: DryRunRequest;
+  changes: Record<string, AttributeChange>;
+  references?: ResolvedReference[];
+}
+
+/**
+ * Flatten the values of an attribute for the before/after view
+ * Missing attributes are shown as empty
+ */
+export function describeValues(
+  values: RESTValueElement[] | undefined,
+  attributeCode: string,
+  templateInfo: RESTTemplateInfo,
+  type?: RESTDataCardElement['type']
+): FlatValue | FlatValue[] {
+  const attribute = templateInfo.attributes?.[attributeCode];
+  const element = {
+    type: type ?? attribute?.type,
+    values: values || [],
+  } as RESTDataCardElement;
+  return flattenElement(element, attribute?.multiValue);
+}
+
+/**
+ * Assemble the dry-run response, leaving out an empty reference list
+ * @param references - References given by name and the data cards they were resolved to
+ */
+export function buildDryRunResult(
+  message: string,
+  request: DryRunRequest,
+  changes: Record<string, AttributeChange>,
+  references: ResolvedReference[] = []
+): DryRunResult {
+  return {
+    dryRun: true,
+    message,
+    request,
+    changes,
+    ...(references.length > 0 && { references }),
+  };
+}
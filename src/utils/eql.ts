@@ -0,0 +1,746 @@
+/**
+ * EQL (Efecte Query Language) utilities
+ * Tokenizes and parses filter expressions into an AST, validates them against
+ * template definitions and builds EQL strings from structured filter objects
+ */
+
+import { RESTAttribute, RESTTemplateInfo } from '../types/efecte.js';
+import { ValidationError } from './errors.js';
+
+export type EqlOperator =
+  | '='
+  | '<>'
+  | '>'
+  | '<'
+  | '>='
+  | '<='
+  | 'IN'
+  | 'NOT IN'
+  | 'LIKE'
+  | 'NOT LIKE'
+  | 'IS NULL'
+  | 'IS NOT NULL';
+
+export interface EqlLiteral {
+  kind: 'string' | 'number';
+  value: string | number;
+  position: number;
+}
+
+export interface EqlConditionNode {
+  type: 'condition';
+  attribute: string;
+  position: number;
+  operator: EqlOperator;
+  values: EqlLiteral[];
+}
+
+export interface EqlLogicalNode {
+  type: 'and' | 'or';
+  operands: EqlNode[];
+}
+
+export interface EqlNotNode {
+  type: 'not';
+  operand: EqlNode;
+}
+
+export type EqlNode = EqlConditionNode | EqlLogicalNode | EqlNotNode;
+
+/**
+ * Category of a filter problem
+ * - syntax: the local parser does not understand the filter (it may still be EQL the server accepts)
+ * - unknown_attribute: attribute code not in the template
+ * - invalid_value: value not among the static values of the attribute
+ * - format: number or date value in a format the local checks do not recognise
+ */
+export type EqlIssueKind = 'syntax' | 'unknown_attribute' | 'invalid_value' | 'format';
+
+/**
+ * Problem found while validating a filter
+ * `position` is the 0-based character offset in the filter (-1 if unknown)
+ */
+export interface EqlIssue {
+  kind: EqlIssueKind;
+  message: string;
+  position: number;
+  attribute?: string;
+  value?: string | number;
+}
+
+export class EqlSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'EqlSyntaxError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'attribute' | 'string' | 'number' | 'operator' | 'keyword' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'IN', 'LIKE', 'IS', 'NULL']);
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '>', '<', '>=', '<=']);
+
+/**
+ * Split an EQL expression into tokens
+ * @throws EqlSyntaxError on unterminated literals or unexpected characters
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      const end = input.indexOf('$', i + 1);
+      if (end === -1) {
+        throw new EqlSyntaxError('Unterminated attribute reference', i);
+      }
+      const code = input.slice(i + 1, end);
+      if (!/^[A-Za-z0-9_.-]+$/.test(code)) {
+        throw new EqlSyntaxError(`Invalid attribute reference "$${code}$"`, i);
+      }
+      tokens.push({ type: 'attribute', value: code, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      // Quotes inside a literal are escaped by doubling them
+      let value = '';
+      let j = i + 1;
+      let closed = false;
+      while (j < input.length) {
+        if (input[j] === char) {
+          if (input[j + 1] === char) {
+            value += char;
+            j += 2;
+            continue;
+          }
+          closed = true;
+          break;
+        }
+        value += input[j];
+        j++;
+      }
+      if (!closed) {
+        throw new EqlSyntaxError('Unterminated string literal', i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(input[i + 1] ?? ''))) {
+      const match = input.slice(i).match(/^-?[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const twoChars = input.slice(i, i + 2);
+    if (COMPARISON_OPERATORS.has(twoChars)) {
+      tokens.push({ type: 'operator', value: twoChars === '!=' ? '<>' : twoChars, position: i });
+      i += 2;
+      continue;
+    }
+    if (COMPARISON_OPERATORS.has(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i });
+      i++;
+      continue;
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[A-Za-z]+/);
+    if (word && KEYWORDS.has(word[0].toUpperCase())) {
+      tokens.push({ type: 'keyword', value: word[0].toUpperCase(), position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    if (word) {
+      throw new EqlSyntaxError(
+        `Unexpected word "${word[0]}" (attribute references must be written as $${word[0]}$ and values must be quoted)`,
+        i
+      );
+    }
+
+    throw new EqlSyntaxError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for EQL
+ * Precedence (lowest first): OR, AND, NOT, parenthesised expression / condition
+ */
+class EqlParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): EqlNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new EqlSyntaxError(
+        token.type === 'rparen' ? 'Unexpected closing parenthesis' : `Unexpected ${describeToken(token)}, expected AND or OR`,
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isKeyword(keyword: string, offset: number = 0): boolean {
+    const token = this.tokens[this.pos + offset];
+    return token !== undefined && token.type === 'keyword' && token.value === keyword;
+  }
+
+  private parseOr(): EqlNode {
+    const operands = [this.parseAnd()];
+    while (this.isKeyword('OR')) {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): EqlNode {
+    const operands = [this.parseNot()];
+    while (this.isKeyword('AND')) {
+      this.next();
+      operands.push(this.parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseNot(): EqlNode {
+    if (this.isKeyword('NOT')) {
+      this.next();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): EqlNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.next();
+      const node = this.parseOr();
+      const closing = this.peek();
+      if (closing.type !== 'rparen') {
+        throw new EqlSyntaxError('Missing closing parenthesis', closing.position);
+      }
+      this.next();
+      return node;
+    }
+
+    if (token.type === 'attribute') {
+      return this.parseCondition();
+    }
+
+    if (token.type === 'eof') {
+      throw new EqlSyntaxError('Unexpected end of filter, expected a condition', token.position);
+    }
+
+    throw new EqlSyntaxError(
+      `Unexpected ${describeToken(token)}, expected an attribute reference like $status$`,
+      token.position
+    );
+  }
+
+  private parseCondition(): EqlConditionNode {
+    const attributeToken = this.next();
+    const base = { type: 'condition' as const, attribute: attributeToken.value, position: attributeToken.position };
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.next();
+      return { ...base, operator: token.value as EqlOperator, values: [this.parseLiteral()] };
+    }
+
+    if (this.isKeyword('IS')) {
+      this.next();
+      const negated = this.isKeyword('NOT');
+      if (negated) this.next();
+      if (!this.isKeyword('NULL')) {
+        throw new EqlSyntaxError('Expected NULL after IS', this.peek().position);
+      }
+      this.next();
+      return { ...base, operator: negated ? 'IS NOT NULL' : 'IS NULL', values: [] };
+    }
+
+    const negated = this.isKeyword('NOT') && (this.isKeyword('IN', 1) || this.isKeyword('LIKE', 1));
+    if (negated) this.next();
+
+    if (this.isKeyword('LIKE')) {
+      this.next();
+      const literal = this.parseLiteral();
+      if (literal.kind !== 'string') {
+        throw new EqlSyntaxError('LIKE requires a quoted string pattern', literal.position);
+      }
+      return { ...base, operator: negated ? 'NOT LIKE' : 'LIKE', values: [literal] };
+    }
+
+    if (this.isKeyword('IN')) {
+      this.next();
+      const open = this.peek();
+      if (open.type !== 'lparen') {
+        throw new EqlSyntaxError('Expected "(" after IN', open.position);
+      }
+      this.next();
+      const values = [this.parseLiteral()];
+      while (this.peek().type === 'comma') {
+        this.next();
+        values.push(this.parseLiteral());
+      }
+      const close = this.peek();
+      if (close.type !== 'rparen') {
+        throw new EqlSyntaxError('Expected "," or ")" in IN list', close.position);
+      }
+      this.next();
+      return { ...base, operator: negated ? 'NOT IN' : 'IN', values };
+    }
+
+    throw new EqlSyntaxError(
+      `Expected comparison operator after $${attributeToken.value}$, found ${describeToken(token)}`,
+      token.position
+    );
+  }
+
+  private parseLiteral(): EqlLiteral {
+    const token = this.next();
+    if (token.type === 'string') {
+      return { kind: 'string', value: token.value, position: token.position };
+    }
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.value), position: token.position };
+    }
+    throw new EqlSyntaxError(`Expected a quoted value or number, found ${describeToken(token)}`, token.position);
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of filter';
+    case 'attribute':
+      return `attribute $${token.value}$`;
+    case 'string':
+      return `string '${token.value}'`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+/**
+ * Parse an EQL filter expression into an AST
+ * @param filter - EQL expression, e.g. "$status$ = '02 - Solving' AND $priority$ <> '3. Medium'"
+ * @throws EqlSyntaxError with the position of the offending token
+ */
+export function parseEql(filter: string): EqlNode {
+  return new EqlParser(tokenize(filter)).parse();
+}
+
+function formatLiteral(literal: EqlLiteral): string {
+  if (literal.kind === 'number') {
+    return String(literal.value);
+  }
+  return `'${String(literal.value).replace(/'/g, '\'\'')}'`;
+}
+
+/**
+ * Render an AST back to an EQL string
+ */
+export function formatEql(node: EqlNode): string {
+  switch (node.type) {
+    case 'condition': {
+      const attribute = `$${node.attribute}$`;
+      if (node.operator === 'IS NULL' || node.operator === 'IS NOT NULL') {
+        return `${attribute} ${node.operator}`;
+      }
+      if (node.operator === 'IN' || node.operator === 'NOT IN') {
+        return `${attribute} ${node.operator} (${node.values.map(formatLiteral).join(', ')})`;
+      }
+      return `${attribute} ${node.operator} ${formatLiteral(node.values[0])}`;
+    }
+    case 'not': {
+      const inner = formatEql(node.operand);
+      return node.operand.type === 'condition' || node.operand.type === 'not' ? `NOT ${inner}` : `NOT (${inner})`;
+    }
+    case 'and':
+    case 'or': {
+      const keyword = node.type === 'and' ? ' AND ' : ' OR ';
+      return node.operands
+        .map(operand => {
+          const inner = formatEql(operand);
+          // OR binds weaker than AND, so it needs parentheses inside an AND
+          return operand.type === 'or' || (operand.type === 'and' && node.type === 'or') ? `(${inner})` : inner;
+        })
+        .join(keyword);
+    }
+  }
+}
+
+/**
+ * Collect all condition nodes of an AST in source order
+ */
+export function collectConditions(node: EqlNode): EqlConditionNode[] {
+  switch (node.type) {
+    case 'condition':
+      return [node];
+    case 'not':
+      return collectConditions(node.operand);
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(collectConditions);
+  }
+}
+
+/**
+ * Check attribute codes and literal values of a parsed filter against a template definition
+ * @returns List of issues (empty if the filter is consistent with the template)
+ */
+export function validateEqlAgainstTemplate(node: EqlNode, templateInfo: RESTTemplateInfo): EqlIssue[] {
+  const issues: EqlIssue[] = [];
+  const attributes = templateInfo.attributes || {};
+
+  for (const condition of collectConditions(node)) {
+    const attribute = attributes[condition.attribute];
+    if (!attribute) {
+      issues.push({
+        kind: 'unknown_attribute',
+        message: `Unknown attribute $${condition.attribute}$ in template ${templateInfo.code}`,
+        position: condition.position,
+        attribute: condition.attribute,
+      });
+      continue;
+    }
+
+    // LIKE patterns cannot be compared to concrete values
+    if (condition.operator === 'LIKE' || condition.operator === 'NOT LIKE') {
+      continue;
+    }
+
+    for (const literal of condition.values) {
+      if (attribute.type === 'static-value' && attribute.values && attribute.values.length > 0) {
+        const text = String(literal.value);
+        const allowed = attribute.values.some(option => String(option.value) === text || option.code === text);
+        if (!allowed) {
+          issues.push({
+            kind: 'invalid_value',
+            message: `Invalid value '${text}' for static value attribute $${condition.attribute}$. Allowed values: ${attribute.values.map(option => `'${option.value}'`).join(', ')}`,
+            position: literal.position,
+            attribute: condition.attribute,
+            value: literal.value,
+          });
+        }
+      } else if (attribute.type === 'number' && literal.kind === 'string' && isNaN(Number(literal.value))) {
+        issues.push({
+          kind: 'format',
+          message: `Value '${literal.value}' for number attribute $${condition.attribute}$ is not a number`,
+          position: literal.position,
+          attribute: condition.attribute,
+          value: literal.value,
+        });
+      } else if (attribute.type === 'date' && isNaN(Date.parse(String(literal.value)))) {
+        issues.push({
+          kind: 'format',
+          message: `Value '${literal.value}' for date attribute $${condition.attribute}$ is not a valid date (use e.g. '2025-01-01' or '2025-01-01T00:00:00Z')`,
+          position: literal.position,
+          attribute: condition.attribute,
+          value: literal.value,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a filter string: syntax always, attributes and values if a template is given
+ */
+export function validateEql(
+  filter: string,
+  templateInfo?: RESTTemplateInfo
+): { valid: boolean; issues: EqlIssue[]; normalized?: string } {
+  let node: EqlNode;
+  try {
+    node = parseEql(filter);
+  } catch (error) {
+    if (error instanceof EqlSyntaxError) {
+      return { valid: false, issues: [{ kind: 'syntax', message: error.message, position: error.position }] };
+    }
+    throw error;
+  }
+
+  const issues = templateInfo ? validateEqlAgainstTemplate(node, templateInfo) : [];
+  return { valid: issues.length === 0, issues, normalized: formatEql(node) };
+}
+
+/**
+ * Whether Efecte would certainly reject a filter with this issue
+ * Syntax and format issues may come from EQL the local parser does not know, so the server decides on those.
+ */
+export function isBlockingEqlIssue(issue: EqlIssue): boolean {
+  return issue.kind === 'unknown_attribute' || issue.kind === 'invalid_value';
+}
+
+/**
+ * Format issues as a human-readable list, pointing at the offending positions
+ */
+export function describeEqlIssues(filter: string, issues: EqlIssue[]): string {
+  return issues
+    .map(issue => {
+      if (issue.position < 0) {
+        return `- ${issue.message}`;
+      }
+      const pointer = `${' '.repeat(issue.position)}^`;
+      return `- ${issue.message}\n    ${filter}\n    ${pointer}`;
+    })
+    .join('\n');
+}
+
+export type EqlScalar = string | number | boolean;
+
+export type EqlFilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'isEmpty';
+
+/**
+ * Single attribute condition of a structured filter
+ */
+export interface EqlFilterClause {
+  attribute: string;
+  op: EqlFilterOperator;
+  value?: EqlScalar | EqlScalar[];
+}
+
+/**
+ * Structured filter object that can be compiled to EQL
+ * Example: { and: [{ attribute: 'status', op: 'eq', value: '02 - Solving' }, { not: { attribute: 'priority', op: 'in', value: ['3. Medium', '4. Low'] } }] }
+ */
+export type EqlFilterCondition =
+  | { and: EqlFilterCondition[] }
+  | { or: EqlFilterCondition[] }
+  | { not: EqlFilterCondition }
+  | EqlFilterClause;
+
+const FILTER_OPERATORS: Record<Exclude<EqlFilterOperator, 'in' | 'contains' | 'isEmpty'>, EqlOperator> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+function toLiteral(value: EqlScalar, path: string): EqlLiteral {
+  if (typeof value === 'number') {
+    return { kind: 'number', value, position: -1 };
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return { kind: 'string', value: String(value), position: -1 };
+  }
+  throw new ValidationError(`Invalid value at ${path}: expected string, number or boolean`);
+}
+
+/**
+ * Convert a structured filter object into an EQL AST
+ * @throws Error describing the path of a malformed condition
+ */
+export function filterToAst(filter: EqlFilterCondition, path: string = 'where'): EqlNode {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw new ValidationError(`Invalid condition at ${path}: expected an object`);
+  }
+
+  const kinds = ['and', 'or', 'not', 'attribute'].filter(key => key in filter);
+  if (kinds.length > 1) {
+    throw new ValidationError(`Invalid condition at ${path}: "${kinds.join('", "')}" cannot be combined in one object, nest them instead`);
+  }
+
+  if ('and' in filter || 'or' in filter) {
+    const type = 'and' in filter ? 'and' : 'or';
+    const conditions = (filter as Record<string, unknown>)[type];
+    if (!Array.isArray(conditions) || conditions.length === 0) {
+      throw new ValidationError(`Invalid condition at ${path}.${type}: expected a non-empty array`);
+    }
+    const operands = conditions.map((condition, index) => filterToAst(condition, `${path}.${type}[${index}]`));
+    return operands.length === 1 ? operands[0] : { type, operands };
+  }
+
+  if ('not' in filter) {
+    return { type: 'not', operand: filterToAst(filter.not, `${path}.not`) };
+  }
+
+  const clause = filter as EqlFilterClause;
+  if (typeof clause.attribute !== 'string' || clause.attribute.trim().length === 0) {
+    throw new ValidationError(`Invalid condition at ${path}: expected "and", "or", "not" or an "attribute" with "op"`);
+  }
+
+  const attribute = clause.attribute.replace(/^\$|\$$/g, '');
+  const base = { type: 'condition' as const, attribute, position: -1 };
+
+  switch (clause.op) {
+    case 'isEmpty':
+      return { ...base, operator: 'IS NULL', values: [] };
+    case 'in': {
+      const values = Array.isArray(clause.value) ? clause.value : [];
+      if (values.length === 0) {
+        throw new ValidationError(`Invalid condition at ${path}: "in" requires a non-empty array value`);
+      }
+      return { ...base, operator: 'IN', values: values.map((value, index) => toLiteral(value, `${path}.value[${index}]`)) };
+    }
+    case 'contains': {
+      if (clause.value === undefined || Array.isArray(clause.value)) {
+        throw new ValidationError(`Invalid condition at ${path}: "contains" requires a single value`);
+      }
+      // EQL has no way to escape LIKE wildcards, so they would match any text
+      if (/[%_]/.test(String(clause.value))) {
+        throw new ValidationError(`Invalid condition at ${path}: "contains" values cannot include % or _, they are LIKE wildcards. Use a filter with LIKE instead`);
+      }
+      return { ...base, operator: 'LIKE', values: [{ kind: 'string', value: `%${String(clause.value)}%`, position: -1 }] };
+    }
+    default: {
+      const operator = FILTER_OPERATORS[clause.op as keyof typeof FILTER_OPERATORS];
+      if (!operator) {
+        throw new ValidationError(`Invalid condition at ${path}: unknown operator "${clause.op}"`);
+      }
+      if (clause.value === undefined || Array.isArray(clause.value)) {
+        throw new ValidationError(`Invalid condition at ${path}: "${clause.op}" requires a single value`);
+      }
+      return { ...base, operator, values: [toLiteral(clause.value, `${path}.value`)] };
+    }
+  }
+}
+
+/**
+ * Build an EQL string from a structured filter object
+ */
+export function buildEql(filter: EqlFilterCondition): string {
+  return formatEql(filterToAst(filter));
+}
+
+/**
+ * Format a date input the way EQL expects it
+ * Date-only values stay 'YYYY-MM-DD' (also accepts 'DD.MM.YYYY'), anything else becomes ISO 8601 without milliseconds
+ * @returns Formatted date or null if the input is not a date
+ */
+export function formatEqlDate(value: string | number): string | null {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed) && !isNaN(Date.parse(trimmed))) {
+      return trimmed;
+    }
+    const european = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (european) {
+      const iso = `${european[3]}-${european[2].padStart(2, '0')}-${european[1].padStart(2, '0')}`;
+      return isNaN(Date.parse(iso)) ? null : iso;
+    }
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Bring a literal into the form EQL expects for the attribute type
+ * Static values given by code are replaced with their value, dates are formatted,
+ * numbers stay unquoted and everything else (e.g. reference names) is quoted
+ */
+function normalizeLiteral(literal: EqlLiteral, attribute: RESTAttribute): EqlLiteral {
+  switch (attribute.type) {
+    case 'static-value': {
+      const text = String(literal.value);
+      const option = (attribute.values || []).find(
+        candidate => candidate.code === text || String(candidate.value).toLowerCase() === text.toLowerCase()
+      );
+      return { ...literal, kind: 'string', value: option ? String(option.value) : text };
+    }
+    case 'date': {
+      const formatted = formatEqlDate(literal.value);
+      return { ...literal, kind: 'string', value: formatted ?? String(literal.value) };
+    }
+    case 'number': {
+      const number = Number(literal.value);
+      return isNaN(number) ? literal : { ...literal, kind: 'number', value: number };
+    }
+    default:
+      return { ...literal, kind: 'string', value: String(literal.value) };
+  }
+}
+
+function normalizeNode(node: EqlNode, templateInfo: RESTTemplateInfo): EqlNode {
+  switch (node.type) {
+    case 'condition': {
+      const attribute = templateInfo.attributes?.[node.attribute];
+      if (!attribute || node.operator === 'LIKE' || node.operator === 'NOT LIKE') {
+        return node;
+      }
+      return { ...node, values: node.values.map(literal => normalizeLiteral(literal, attribute)) };
+    }
+    case 'not':
+      return { type: 'not', operand: normalizeNode(node.operand, templateInfo) };
+    case 'and':
+    case 'or':
+      return { type: node.type, operands: node.operands.map(operand => normalizeNode(operand, templateInfo)) };
+  }
+}
+
+/**
+ * Compile a structured filter to EQL using the template definition
+ * Values are quoted and formatted according to the attribute types
+ * @throws Error if the condition is malformed or does not match the template
+ */
+export function compileWhere(filter: EqlFilterCondition, templateInfo: RESTTemplateInfo): string {
+  const node = normalizeNode(filterToAst(filter), templateInfo);
+
+  const issues = validateEqlAgainstTemplate(node, templateInfo);
+  if (issues.length > 0) {
+    throw new ValidationError(`Invalid where condition:\n${describeEqlIssues('', issues)}`);
+  }
+
+  return formatEql(node);
+}
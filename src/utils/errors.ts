@@ -0,0 +1,304 @@
+import axios from 'axios';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { DataCardInfoElement, RESTError, RESTMetaData } from '../types/efecte.js';
+
+export type EfecteErrorKind = 'not_found' | 'validation' | 'conflict' | 'auth' | 'forbidden' | 'rate_limited' | 'timeout' | 'upstream';
+
+/**
+ * Structured error sent to MCP clients as the error data
+ */
+export interface EfecteErrorPayload {
+  kind: EfecteErrorKind | 'internal';
+  message: string;
+  // Whether the same call may succeed when repeated later
+  retryable: boolean;
+  status?: number;
+  attempts?: number;
+  retryAfter?: string;
+  errors?: RESTError[];
+  details?: unknown;
+}
+
+interface EfecteErrorOptions {
+  status?: number;
+  errors?: RESTError[];
+  details?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class of errors raised by the Efecte API client and the tools
+ */
+export abstract class EfecteError extends Error {
+  abstract readonly kind: EfecteErrorKind;
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  // Per-attribute errors reported by Efecte
+  readonly errors?: RESTError[];
+  readonly details?: unknown;
+  // Number of attempts made when the request was retried
+  attempts?: number;
+
+  constructor(message: string, options: EfecteErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.errors = options.errors;
+    this.details = options.details;
+  }
+
+  toPayload(): EfecteErrorPayload {
+    return {
+      kind: this.kind,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.status !== undefined && { status: this.status }),
+      ...(this.attempts !== undefined && this.attempts > 1 && { attempts: this.attempts }),
+      ...(this.errors && this.errors.length > 0 && { errors: this.errors }),
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+/**
+ * Template, data card, attribute or other resource does not exist
+ */
+export class NotFoundError extends EfecteError {
+  readonly kind = 'not_found';
+}
+
+/**
+ * Input rejected locally or by Efecte
+ */
+export class ValidationError extends EfecteError {
+  readonly kind = 'validation';
+
+  constructor(message: string, errors: RESTError[] = [], options: Omit<EfecteErrorOptions, 'errors'> = {}) {
+    super(message, { ...options, errors });
+  }
+}
+
+/**
+ * Data changed concurrently or the request conflicts with the current state
+ */
+export class ConflictError extends EfecteError {
+  readonly kind = 'conflict';
+}
+
+/**
+ * Authentication failed or the user lacks permission
+ */
+export class AuthError extends EfecteError {
+  readonly kind = 'auth';
+}
+
+/**
+ * Tool or template is disabled by the server's access configuration
+ */
+export class ForbiddenError extends EfecteError {
+  readonly kind = 'forbidden';
+}
+
+/**
+ * Efecte rejected the request because of too many requests
+ */
+export class RateLimitedError extends EfecteError {
+  readonly kind = 'rate_limited';
+  readonly retryable = true;
+  readonly retryAfter?: Date;
+
+  constructor(message: string, retryAfter?: Date, options: EfecteErrorOptions = {}) {
+    super(message, options);
+    this.retryAfter = retryAfter;
+  }
+
+  toPayload(): EfecteErrorPayload {
+    return { ...super.toPayload(), ...(this.retryAfter && { retryAfter: this.retryAfter.toISOString() }) };
+  }
+}
+
+/**
+ * Efecte did not answer in time
+ */
+export class TimeoutError extends EfecteError {
+  readonly kind = 'timeout';
+  readonly retryable = true;
+  readonly code = 'ETIMEDOUT';
+}
+
+/**
+ * Efecte is unreachable or failed with a server error
+ */
+export class UpstreamError extends EfecteError {
+  readonly kind = 'upstream';
+  readonly retryable = true;
+  // Network error code (e.g. ECONNREFUSED), if any
+  readonly code?: string;
+
+  constructor(message: string, options: EfecteErrorOptions & { code?: string } = {}) {
+    super(message, options);
+    this.code = options.code;
+  }
+}
+
+/**
+ * Problem reported with a successful write, e.g. a referenced data card that could not be created
+ */
+export interface RESTWarning extends RESTError {
+  // Created reference data card the problem belongs to
+  dataCard?: DataCardInfoElement;
+}
+
+/**
+ * Collect the attribute errors of RESTMetaData, including those of created references
+ */
+function collectMetaErrors(meta?: Partial<RESTMetaData>): RESTWarning[] {
+  const errors: RESTWarning[] = Array.isArray(meta?.errors) ? [...meta.errors] : [];
+  for (const reference of meta?.createdReferences ?? []) {
+    for (const error of reference.errors ?? []) {
+      errors.push({ ...error, dataCard: reference.dataCard });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Extract per-attribute errors from an Efecte error response body (RESTMetaData or ApiException)
+ */
+export function extractRestErrors(body: unknown, status?: number): RESTError[] {
+  if (!body || typeof body !== 'object') {
+    return [];
+  }
+  const data = body as Record<string, any>;
+  const errors = data.meta ? collectMetaErrors(data.meta) : collectMetaErrors(data);
+  if (errors.length > 0) {
+    return errors;
+  }
+  if (data.message || data.error) {
+    return [{ message: String(data.message ?? data.error), error: String(data.error ?? status ?? 'error') }];
+  }
+  return [];
+}
+
+/**
+ * Extract the problems reported with a successful write response
+ * Efecte answers 2xx when the data card was saved even if some attributes or
+ * created references failed; those are returned as warnings.
+ */
+export function extractRestWarnings(response: unknown): RESTWarning[] {
+  if (!response || typeof response !== 'object') {
+    return [];
+  }
+  return collectMetaErrors((response as { meta?: Partial<RESTMetaData> }).meta);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map a failed Axios request to the error taxonomy
+ */
+export function fromAxiosError(error: unknown): EfecteError {
+  if (error instanceof EfecteError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new UpstreamError(error instanceof Error ? error.message : 'Unknown error', { cause: error });
+  }
+
+  const url = error.config?.url || 'unknown';
+  if (!error.response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.message.includes('timeout')) {
+      const timeout = error.config?.timeout;
+      return new TimeoutError(
+        `Request to ${url} timed out${timeout ? ` after ${timeout}ms` : ''}. The server may be slow or unreachable.`,
+        { cause: error }
+      );
+    }
+    return new UpstreamError(
+      `Network error connecting to ${url}: ${error.message}. Please check your connection and server availability.`,
+      { code: error.code, cause: error }
+    );
+  }
+
+  const status = error.response.status;
+  const errors = extractRestErrors(error.response.data, status);
+  const summary = errors.length > 0 ? `: ${errors.map(item => item.attributeCode ? `${item.attributeCode}: ${item.message}` : item.message).join('; ')}` : '';
+  const message = `${error.message}${summary}`;
+  const options = { status, errors, cause: error };
+
+  switch (true) {
+    case status === 404:
+      return new NotFoundError(message, options);
+    case status === 400 || status === 422:
+      return new ValidationError(message, errors, { status, cause: error });
+    case status === 401 || status === 403:
+      return new AuthError(message, options);
+    case status === 409 || status === 412:
+      return new ConflictError(message, options);
+    case status === 429: {
+      const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+      return new RateLimitedError(message, retryAfter === null ? undefined : new Date(Date.now() + retryAfter), options);
+    }
+    default:
+      return new UpstreamError(message, options);
+  }
+}
+
+/**
+ * Copy an error with a new message, keeping its class and all other data (status, errors, cause, attempts)
+ * Errors are never changed in place: a rejected request may be shared by several callers.
+ */
+export function copyError<T extends Error>(error: T, message: string): T {
+  const copy = Object.create(Object.getPrototypeOf(error), Object.getOwnPropertyDescriptors(error)) as T;
+  Object.defineProperty(copy, 'message', { value: message, writable: true, configurable: true, enumerable: false });
+  return copy;
+}
+
+/**
+ * Add context to an error message, keeping its class and data
+ */
+export function withContext(error: unknown, context: string): Error {
+  if (error instanceof Error) {
+    return copyError(error, `${context}: ${error.message}`);
+  }
+  return new Error(`${context}: Unknown error`);
+}
+
+const MCP_ERROR_CODES: Record<EfecteErrorKind, number> = {
+  not_found: ErrorCode.InvalidParams,
+  validation: ErrorCode.InvalidParams,
+  conflict: ErrorCode.InvalidRequest,
+  auth: ErrorCode.InvalidRequest,
+  forbidden: ErrorCode.InvalidRequest,
+  rate_limited: ErrorCode.InternalError,
+  timeout: ErrorCode.RequestTimeout,
+  upstream: ErrorCode.InternalError,
+};
+
+/**
+ * Convert any error into an McpError with a structured payload in its data
+ */
+export function toMcpError(error: unknown, context: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof EfecteError) {
+    return new McpError(MCP_ERROR_CODES[error.kind], `${context}: ${error.message}`, error.toPayload());
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const payload: EfecteErrorPayload = { kind: 'internal', message, retryable: false };
+  return new McpError(ErrorCode.InternalError, `${context}: ${message}`, payload);
+}
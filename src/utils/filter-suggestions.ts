@@ -0,0 +1,223 @@
+import { logger } from './logger.js';
+import { parseEql, formatEql, EqlNode, EqlConditionNode, EqlSyntaxError } from './eql.js';
+import { listReferenceValues, findSimilarMatch } from './reference-attributes.js';
+import { templateRegistry } from './template-registry.js';
+import { isTemplateAllowed } from './access.js';
+import { RESTAttribute, RESTTemplateInfo } from '../types/efecte.js';
+
+/**
+ * Problem found in one clause of a filter, with a suggested replacement if one was found
+ * Suggestions for attribute codes and static values are applied to the corrected filter. Reference names
+ * are only checked against the first data cards of the referenced templates, so their suggestions are
+ * hints and never applied.
+ */
+export interface FilterSuggestion {
+  kind: 'attribute' | 'static-value' | 'reference';
+  attribute: string;
+  position: number;
+  original: string;
+  suggestion: string | null;
+  availableValues?: string[];
+  totalAvailable?: number;
+  message: string;
+}
+
+export interface FilterAnalysis {
+  suggestions: FilterSuggestion[];
+  // Filter with the attribute and static value suggestions applied, null if there are none or one has no suggestion
+  correctedFilter: string | null;
+}
+
+// Number of available values listed per clause in suggestions and error messages
+const MAX_LISTED_VALUES = 20;
+
+// Number of data cards of a referenced template that reference names are checked against
+const REFERENCE_LOOKUP_LIMIT = 200;
+
+/**
+ * Whether a suggestion is applied to the corrected filter
+ */
+export function isAutoCorrectable(suggestion: FilterSuggestion): boolean {
+  return suggestion.kind !== 'reference' && suggestion.suggestion !== null;
+}
+
+function isPatternCondition(condition: EqlConditionNode): boolean {
+  return condition.operator === 'LIKE' || condition.operator === 'NOT LIKE';
+}
+
+/**
+ * Check one condition against the template and collect suggestions
+ * @returns Condition with all found suggestions applied
+ */
+async function analyzeCondition(
+  condition: EqlConditionNode,
+  templateInfo: RESTTemplateInfo,
+  checkReferences: boolean,
+  suggestions: FilterSuggestion[]
+): Promise<EqlConditionNode> {
+  const attributes = templateInfo.attributes || {};
+  let attributeCode = condition.attribute;
+  let attribute: RESTAttribute | undefined = attributes[attributeCode];
+
+  if (!attribute) {
+    const suggestion = findSimilarMatch(attributeCode, Object.keys(attributes));
+    suggestions.push({
+      kind: 'attribute',
+      attribute: attributeCode,
+      position: condition.position,
+      original: attributeCode,
+      suggestion,
+      message: `Unknown attribute "${attributeCode}" in template ${templateInfo.code}.`,
+    });
+    if (!suggestion) {
+      return condition;
+    }
+    attributeCode = suggestion;
+    attribute = attributes[suggestion];
+  }
+
+  let values = condition.values;
+
+  if (attribute.type === 'static-value' && attribute.values && attribute.values.length > 0 && !isPatternCondition(condition)) {
+    const options = attribute.values.map(option => String(option.value));
+    values = values.map(literal => {
+      const text = String(literal.value);
+      if (options.includes(text) || attribute!.values!.some(option => option.code === text)) {
+        return literal;
+      }
+      const suggestion = findSimilarMatch(text, options);
+      suggestions.push({
+        kind: 'static-value',
+        attribute: attributeCode,
+        position: literal.position,
+        original: text,
+        suggestion,
+        availableValues: options.slice(0, MAX_LISTED_VALUES),
+        totalAvailable: options.length,
+        message: `Invalid value "${text}" for attribute "${attributeCode}".`,
+      });
+      return suggestion ? { ...literal, kind: 'string' as const, value: suggestion } : literal;
+    });
+  }
+
+  // Data cards of templates that are not available on this server are not listed
+  const targets = (attribute.target || []).filter(isTemplateAllowed);
+  if (checkReferences && attribute.type === 'reference' && targets.length > 0 && !isPatternCondition(condition)) {
+    const availableValues: string[] = [];
+    for (const target of targets) {
+      availableValues.push(...await listReferenceValues(target, REFERENCE_LOOKUP_LIMIT));
+    }
+
+    if (availableValues.length > 0) {
+      values = values.map(literal => {
+        const text = String(literal.value);
+        if (availableValues.includes(text)) {
+          return literal;
+        }
+        // The name may belong to a data card beyond the ones listed, so it is left as given
+        suggestions.push({
+          kind: 'reference',
+          attribute: attributeCode,
+          position: literal.position,
+          original: text,
+          suggestion: findSimilarMatch(text, availableValues),
+          availableValues: availableValues.slice(0, MAX_LISTED_VALUES),
+          totalAvailable: availableValues.length,
+          message: `No data card named "${text}" for attribute "${attributeCode}" among the first ${REFERENCE_LOOKUP_LIMIT} of ${targets.join(', ')}.`,
+        });
+        return literal;
+      });
+    }
+  }
+
+  return { ...condition, attribute: attributeCode, values };
+}
+
+async function analyzeNode(
+  node: EqlNode,
+  templateInfo: RESTTemplateInfo,
+  checkReferences: boolean,
+  suggestions: FilterSuggestion[]
+): Promise<EqlNode> {
+  switch (node.type) {
+    case 'condition':
+      return analyzeCondition(node, templateInfo, checkReferences, suggestions);
+    case 'not':
+      return { type: 'not', operand: await analyzeNode(node.operand, templateInfo, checkReferences, suggestions) };
+    case 'and':
+    case 'or': {
+      const operands: EqlNode[] = [];
+      for (const operand of node.operands) {
+        operands.push(await analyzeNode(operand, templateInfo, checkReferences, suggestions));
+      }
+      return { type: node.type, operands };
+    }
+  }
+}
+
+/**
+ * Check every clause of a filter and suggest corrections
+ * Unknown attribute codes are matched against the template's attribute codes, static values against
+ * the attribute's allowed values and (if checkReferences is set) reference names against the names
+ * available in the referenced templates. Only attribute and static value corrections are applied to
+ * the corrected filter.
+ * @param filter - EQL filter expression
+ * @param templateCode - Template the filter is applied to
+ * @param options.checkReferences - Also look up reference values (requires extra API calls)
+ */
+export async function suggestFilterCorrections(
+  filter: string,
+  templateCode: string,
+  options: { checkReferences?: boolean } = {}
+): Promise<FilterAnalysis> {
+  let ast: EqlNode;
+  try {
+    ast = parseEql(filter);
+  } catch (error) {
+    if (error instanceof EqlSyntaxError) {
+      return { suggestions: [], correctedFilter: null };
+    }
+    throw error;
+  }
+
+  const templateInfo = await templateRegistry.get(templateCode);
+  const suggestions: FilterSuggestion[] = [];
+  const corrected = await analyzeNode(ast, templateInfo, options.checkReferences ?? false, suggestions);
+
+  const fixes = suggestions.filter(suggestion => suggestion.kind !== 'reference');
+  const correctable = fixes.length > 0 && fixes.every(isAutoCorrectable);
+  const correctedFilter = correctable ? formatEql(corrected) : null;
+
+  if (suggestions.length > 0) {
+    logger.debug(`Found ${suggestions.length} problem(s) in filter for ${templateCode}`, {
+      filter,
+      correctedFilter,
+    });
+  }
+
+  return { suggestions, correctedFilter };
+}
+
+/**
+ * Format suggestions as a human-readable message with available values and "did you mean" hints
+ */
+export function formatFilterSuggestions(suggestions: FilterSuggestion[]): string {
+  return suggestions
+    .map(suggestion => {
+      let text = suggestion.message;
+      if (suggestion.availableValues && suggestion.availableValues.length > 0) {
+        const label = suggestion.attribute.replace(/_/g, ' ');
+        text += `\nAvailable ${label.endsWith('s') ? `${label}es` : `${label}s`}:\n`;
+        text += suggestion.availableValues.map(value => `- ${value}`).join('\n');
+        const more = (suggestion.totalAvailable ?? 0) - suggestion.availableValues.length;
+        if (more > 0) {
+          text += `\n... and ${more} more`;
+        }
+      }
+      if (suggestion.suggestion) {
+        text += `\nDid you mean "${suggestion.suggestion}"?`;
+      }
+      return text;
+    })
+    .join('\n\n');
+}
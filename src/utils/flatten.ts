@@ -0,0 +1,101 @@
+import {
+  RESTDataCardElement,
+  RESTValueElement,
+  RESTTemplateInfo,
+  RESTPaginatedDataCardsInfo,
+} from '../types/efecte.js';
+
+/**
+ * Human-readable value of a single attribute value
+ * Worklog entries keep their author and date, everything else becomes a scalar
+ */
+export type FlatValue = string | number | boolean | null | { author?: string; date?: string; text: string };
+
+/**
+ * Flat representation of a data card: metadata plus one scalar or array per attribute
+ */
+export interface FlatDataCard {
+  dataCardId?: string;
+  name?: string;
+  templateCode?: string;
+  templateName?: string;
+  folderCode?: string;
+  folderName?: string;
+  data?: Record<string, FlatValue | FlatValue[]>;
+}
+
+export type DataCardFormat = 'raw' | 'flat';
+
+/**
+ * Convert a single value element to its human-readable form based on the attribute type
+ */
+export function flattenValue(value: RESTValueElement, type: RESTDataCardElement['type'] | string): FlatValue {
+  switch (type) {
+    case 'static-value':
+      return value.value !== undefined ? value.value : value.code ?? null;
+    case 'reference':
+    case 'external-reference':
+      return value.name ?? value.dataCardId ?? value.value ?? null;
+    case 'number': {
+      const number = Number(value.value);
+      return value.value === undefined || value.value === null || isNaN(number) ? value.value ?? null : number;
+    }
+    case 'worklog':
+      return {
+        ...(value.author !== undefined && { author: value.author }),
+        ...(value.date !== undefined && { date: value.date }),
+        text: value.value !== undefined && value.value !== null ? String(value.value) : '',
+      };
+    default:
+      // File attachments carry their name instead of a value
+      if (value.value === undefined && value.name !== undefined) {
+        return value.name;
+      }
+      return value.value ?? null;
+  }
+}
+
+/**
+ * Convert an attribute element to a scalar (single-value attributes) or array (multi-value attributes)
+ * Without template information, a single value becomes a scalar and several values an array
+ */
+export function flattenElement(element: RESTDataCardElement, multiValue?: boolean): FlatValue | FlatValue[] {
+  const values = (element.values || []).map(value => flattenValue(value, element.type));
+  if (multiValue ?? values.length > 1) {
+    return values;
+  }
+  return values.length > 0 ? values[0] : null;
+}
+
+/**
+ * Convert a data card (or data card info element) to the flat representation
+ */
+export function flattenDataCard(card: any, templateInfo?: RESTTemplateInfo | null): FlatDataCard {
+  const flat: FlatDataCard = {};
+  for (const key of ['dataCardId', 'name', 'templateCode', 'templateName', 'folderCode', 'folderName'] as const) {
+    if (card[key] !== undefined) {
+      flat[key] = card[key];
+    }
+  }
+
+  if (card.data && typeof card.data === 'object') {
+    flat.data = {};
+    for (const [attributeCode, element] of Object.entries(card.data as Record<string, RESTDataCardElement>)) {
+      if (element && Array.isArray(element.values)) {
+        flat.data[attributeCode] = flattenElement(element, templateInfo?.attributes?.[attributeCode]?.multiValue);
+      }
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Convert all data cards of a paginated result to the flat representation
+ */
+export function flattenDataCardList(result: RESTPaginatedDataCardsInfo, templateInfo?: RESTTemplateInfo | null) {
+  return {
+    meta: result.meta,
+    data: result.data.map(card => flattenDataCard(card, templateInfo)),
+  };
+}
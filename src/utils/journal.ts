@@ -0,0 +1,120 @@
+import { logger } from './logger.js';
+import { getRequestContext } from './request-context.js';
+import { getInstanceProfile } from './config.js';
+import { RESTValueElement } from '../types/efecte.js';
+
+// Number of changes kept; the oldest are dropped first
+const MAX_ENTRIES = 1000;
+
+export type JournalAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'update_attribute'
+  | 'add_attribute_value'
+  | 'delete_attribute_value'
+  | 'upload_file'
+  | 'undo';
+
+/**
+ * Values of one attribute before and after a write
+ */
+export interface AttributeChangeRecord {
+  attribute: string;
+  type?: string;
+  previous: RESTValueElement[];
+  next: RESTValueElement[];
+}
+
+/**
+ * A write performed through the MCP server
+ */
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  tool: string;
+  // Efecte instance the write went to
+  instance: string;
+  action: JournalAction;
+  templateCode: string;
+  dataCardId: string;
+  name?: string;
+  folder?: { previous?: string; next: string };
+  changes: AttributeChangeRecord[];
+  // Changes that cannot be written back explain why
+  undoable: boolean;
+  reason?: string;
+  // Set when the change was reverted
+  undoneBy?: string;
+  // Set on entries recording an undo
+  undoOf?: string;
+}
+
+const entries: JournalEntry[] = [];
+let sequence = 0;
+
+/**
+ * Record a write, taking session, tool name and instance from the current request context
+ */
+export function recordChange(
+  change: Omit<JournalEntry, 'id' | 'timestamp' | 'sessionId' | 'tool' | 'instance' | 'undoable'> & { undoable?: boolean; tool?: string }
+): JournalEntry {
+  const context = getRequestContext();
+  const entry: JournalEntry = {
+    id: `chg-${++sequence}`,
+    timestamp: new Date().toISOString(),
+    sessionId: context?.sessionId ?? 'unknown',
+    instance: getInstanceProfile().name,
+    ...change,
+    tool: change.tool ?? context?.tool ?? 'unknown',
+    undoable: change.undoable ?? true,
+  };
+
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) {
+    entries.splice(0, entries.length - MAX_ENTRIES);
+  }
+
+  logger.debug(`Recorded change ${entry.id}: ${entry.action} ${entry.templateCode}/${entry.dataCardId}`);
+  return entry;
+}
+
+/**
+ * Get a change by ID
+ */
+export function getChange(id: string): JournalEntry | undefined {
+  return entries.find(entry => entry.id === id);
+}
+
+/**
+ * List changes, newest first
+ */
+export function listChanges(filter: {
+  sessionId?: string;
+  instance?: string;
+  templateCode?: string;
+  dataCardId?: string;
+  limit?: number;
+} = {}): JournalEntry[] {
+  const result: JournalEntry[] = [];
+  for (let i = entries.length - 1; i >= 0 && result.length < (filter.limit ?? MAX_ENTRIES); i--) {
+    const entry = entries[i];
+    if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+    if (filter.instance && entry.instance !== filter.instance) continue;
+    if (filter.templateCode && entry.templateCode !== filter.templateCode) continue;
+    if (filter.dataCardId && entry.dataCardId !== filter.dataCardId) continue;
+    result.push(entry);
+  }
+  return result;
+}
+
+/**
+ * Mark a change as reverted by another change
+ */
+export function markUndone(id: string, undoneBy: string): void {
+  const entry = getChange(id);
+  if (entry) {
+    entry.undoneBy = undoneBy;
+  }
+}
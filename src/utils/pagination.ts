@@ -0,0 +1,154 @@
+import { logger } from './logger.js';
+import { DataCardInfoElement, RESTPaginatedDataCardsInfo } from '../types/efecte.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Query parameters for a single page request
+ */
+export type PageParams = Record<string, string | number | boolean>;
+
+/**
+ * Resumable position inside a paginated data card listing
+ * `params` are the query parameters of the page to fetch next and
+ * `skip` is the number of items of that page that were already returned
+ */
+export interface PageCursor {
+  templateCode: string;
+  params: PageParams;
+  skip: number;
+}
+
+export interface WalkPagesResult {
+  data: DataCardInfoElement[];
+  pagesFetched: number;
+  lastMeta: RESTPaginatedDataCardsInfo['meta'] | null;
+  next: { params: PageParams; skip: number } | null;
+}
+
+// Safety net against APIs that keep returning the same next link
+const MAX_PAGES = 1000;
+
+/**
+ * Encode a cursor as an opaque token that can be handed back to the model
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor token produced by encodeCursor
+ * @throws Error if the token is malformed
+ */
+export function decodeCursor(token: string): PageCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    if (
+      !cursor ||
+      typeof cursor.templateCode !== 'string' ||
+      typeof cursor.params !== 'object' ||
+      typeof cursor.skip !== 'number'
+    ) {
+      throw new Error('missing fields');
+    }
+    return cursor as PageCursor;
+  } catch {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+}
+
+/**
+ * Determine the query parameters for the page following the given one
+ * Follows `meta.links.next` when present, otherwise falls back to a decreasing
+ * `filterId` based on the lowest data card ID of a full page.
+ * Returns null when there are no more pages.
+ */
+export function getNextPageParams(page: RESTPaginatedDataCardsInfo, currentParams: PageParams): PageParams | null {
+  const nextLink = page.meta?.links?.next;
+  if (nextLink) {
+    try {
+      const url = new URL(nextLink, 'http://localhost');
+      const params: PageParams = {};
+      url.searchParams.forEach((value, key) => {
+        params[key] = value;
+      });
+      if (Object.keys(params).length > 0) {
+        return params;
+      }
+    } catch {
+      logger.debug(`Could not parse next page link: ${nextLink}`);
+    }
+  }
+
+  const limit = Number(currentParams.limit ?? page.meta?.limit ?? 0);
+  if (!page.data || page.data.length === 0 || page.data.length < limit) {
+    return null;
+  }
+
+  const ids = page.data.map(item => Number(item.dataCardId)).filter(id => Number.isFinite(id));
+  if (ids.length === 0) {
+    return null;
+  }
+
+  return { ...currentParams, filterId: Math.min(...ids) };
+}
+
+function sameParams(a: PageParams, b: PageParams): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (String(a[key]) !== String(b[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Walk through pages until the listing is exhausted or maxItems is reached
+ * @param fetchPage - Function fetching a single page for the given parameters
+ * @param start - Parameters of the first page and number of its items to skip
+ * @param maxItems - Maximum number of items to collect
+ * @returns Collected items and the position to continue from (null when exhausted)
+ */
+export async function walkPages(
+  fetchPage: (params: PageParams) => Promise<RESTPaginatedDataCardsInfo>,
+  start: { params: PageParams; skip: number },
+  maxItems: number
+): Promise<WalkPagesResult> {
+  const data: DataCardInfoElement[] = [];
+  let params = start.params;
+  let skip = start.skip;
+  let pagesFetched = 0;
+  let lastMeta: RESTPaginatedDataCardsInfo['meta'] | null = null;
+
+  while (pagesFetched < MAX_PAGES) {
+    const page = await fetchPage(params);
+    pagesFetched++;
+    lastMeta = page.meta;
+
+    const items = (page.data || []).slice(skip);
+    const remaining = maxItems - data.length;
+    const nextParams = getNextPageParams(page, params);
+
+    if (items.length > remaining) {
+      data.push(...items.slice(0, remaining));
+      return { data, pagesFetched, lastMeta, next: { params, skip: skip + remaining } };
+    }
+
+    data.push(...items);
+    logger.debug(`Fetched page ${pagesFetched} with ${items.length} item(s), ${data.length} collected so far`);
+
+    if (!nextParams || sameParams(nextParams, params)) {
+      return { data, pagesFetched, lastMeta, next: null };
+    }
+
+    if (data.length >= maxItems) {
+      return { data, pagesFetched, lastMeta, next: { params: nextParams, skip: 0 } };
+    }
+
+    params = nextParams;
+    skip = 0;
+  }
+
+  logger.warn(`Stopped pagination after ${MAX_PAGES} pages`);
+  return { data, pagesFetched, lastMeta, next: { params, skip: 0 } };
+}
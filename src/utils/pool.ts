@@ -0,0 +1,29 @@
+/**
+ * Run a worker over items with at most `concurrency` calls in flight
+ * Results keep the order of the items. Once `shouldStop` returns true, no further items
+ * are started and the remaining results are left undefined.
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent worker calls
+ * @param worker - Async function processing one item
+ * @param shouldStop - Checked before each item is started
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean = () => false
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const runner = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runner);
+  await Promise.all(runners);
+  return results;
+}
@@ -1,31 +1,14 @@
-import axios from 'axios';
-import { apiClient } from '../api/client.js';
+import { getApiClient } from '../api/client.js';
 import { logger } from './logger.js';
-import { RESTTemplateInfo, RESTPaginatedDataCardsInfo } from '../types/efecte.js';
+import { RESTPaginatedDataCardsInfo } from '../types/efecte.js';
 import { Cache } from './cache.js';
-import { efecteConfig } from './config.js';
+import { templateRegistry } from './template-registry.js';
+import { ValidationError } from './errors.js';
+import { walkPages } from './pagination.js';
+import { isTemplateAllowed } from './access.js';
 
-// Cache for template info and reference values
-const templateInfoCache = new Cache<RESTTemplateInfo>('template-info-refs');
-const referenceValuesCache = new Cache<string[]>('reference-values');
-
-/**
- * Extract reference attribute and value from an EQL filter expression
- * Examples:
- *   "$support_group$ = 'IT Support'" -> { attribute: "support_group", value: "IT Support" }
- *   "$customer$ = 'John Doe'" -> { attribute: "customer", value: "John Doe" }
- */
-export function extractReferenceAttributeFromFilter(filter: string): { attribute: string; value: string } | null {
-  // Match patterns like $attribute_name$ = 'value' or $attribute_name$ = "value"
-  const match = filter.match(/\$([^$]+)\$\s*=\s*['"]([^'"]+)['"]/);
-  if (match) {
-    return {
-      attribute: match[1],
-      value: match[2],
-    };
-  }
-  return null;
-}
+// Cache for reference values
+const referenceCardsCache = new Cache<ReferenceCard[]>('reference-values', { staleWhileRevalidate: true });
 
 /**
  * Get the reference template code for a given attribute
@@ -36,27 +19,10 @@ export async function getReferenceTemplateCode(
   templateCode: string
 ): Promise<string | null> {
   try {
-    // Get template info (use cache if available)
-    let templateInfo = templateInfoCache.get(templateCode);
-    
-    if (!templateInfo) {
-      logger.debug(`Fetching template info for ${templateCode} to check attribute ${attributeCode}`);
-      templateInfo = await apiClient.get<RESTTemplateInfo>(`dc/${templateCode}`);
-      templateInfoCache.set(templateCode, templateInfo, efecteConfig.caching.templatesTTL);
-    }
+    const index = await templateRegistry.getIndex(templateCode);
 
-    const attribute = templateInfo.attributes[attributeCode];
-    if (!attribute) {
-      return null;
-    }
-
-    // Check if it's a reference type attribute
-    if (attribute.type === 'reference' && attribute.target && attribute.target.length > 0) {
-      // Return the first target template (most common case)
-      return attribute.target[0];
-    }
-
-    return null;
+    // Return the first target template (most common case)
+    return index.referenceTargets.get(attributeCode)?.[0] ?? null;
   } catch (error) {
     logger.error(`Failed to get reference template code for attribute ${attributeCode}`, error);
     return null;
@@ -64,64 +30,119 @@ export async function getReferenceTemplateCode(
 }
 
 /**
- * List all available values (names) for a reference template
- * Returns an array of names from data cards in the reference template
+ * Data card of a reference template, identified by name and ID
  */
-export async function listReferenceValues(referenceTemplateCode: string, limit: number = 200): Promise<string[]> {
-  const cacheKey = `${referenceTemplateCode}:${limit}`;
-  
-  // Check cache first
-  const cached = referenceValuesCache.get(cacheKey);
-  if (cached) {
-    logger.debug(`Returning cached reference values for ${referenceTemplateCode}`);
-    return cached;
-  }
+export interface ReferenceCard {
+  dataCardId: string;
+  name: string;
+}
 
+/**
+ * List the data cards (names and IDs) available in a reference template
+ * @param referenceTemplateCode - The template code to fetch values from
+ * @param limit - Maximum number of data cards to fetch (default: 200), more than one page is followed
+ * @returns Nothing for templates that are not available on this server
+ */
+export async function listReferenceCards(referenceTemplateCode: string, limit: number = 200): Promise<ReferenceCard[]> {
+  if (!isTemplateAllowed(referenceTemplateCode)) {
+    logger.debug(`Not listing reference values of template ${referenceTemplateCode}, it is not available on this server`);
+    return [];
+  }
   try {
-    logger.debug(`Fetching reference values from template ${referenceTemplateCode}`);
-    
-    // Fetch data cards from the reference template
-    const result = await apiClient.get<RESTPaginatedDataCardsInfo>(
-      `dc/${referenceTemplateCode}/data`,
-      { 
-        params: { 
-          limit: Math.min(limit, 200),
-          dataCards: true 
-        } 
-      }
+    // Cache the results for 5 minutes, expired lists are refreshed in the background
+    return await referenceCardsCache.getOrLoad(
+      `${referenceTemplateCode}:${limit}`,
+      () => fetchReferenceCards(referenceTemplateCode, limit),
+      5 * 60 * 1000
     );
-
-    // Extract names from the data cards
-    const names: string[] = [];
-    
-    for (const dataCard of result.data) {
-      // The name is typically in the 'name' field of the dataCard
-      if (dataCard.name) {
-        names.push(dataCard.name);
-      } else if ('data' in dataCard) {
-        // If dataCards=true, check the data structure
-        const cardData = (dataCard as any).data;
-        // Try common name fields
-        if (cardData?.name?.values?.[0]?.value) {
-          names.push(cardData.name.values[0].value);
-        } else if (cardData?.primary_id?.values?.[0]?.value) {
-          names.push(cardData.primary_id.values[0].value);
-        } else if (cardData?.title?.values?.[0]?.value) {
-          names.push(cardData.title.values[0].value);
-        }
-      }
-    }
-
-    // Cache the results for 5 minutes
-    referenceValuesCache.set(cacheKey, names, 5 * 60 * 1000);
-    
-    return names;
   } catch (error) {
     logger.error(`Failed to list reference values for template ${referenceTemplateCode}`, error);
     return [];
   }
 }
 
+/**
+ * Find the data cards of a reference template with the given name, using an EQL filter on $name$
+ * @param referenceTemplateCode - The template code to search
+ * @param name - Data card name to look for
+ * @param limit - Maximum number of data cards to return (default: 5)
+ * @returns Nothing for templates that are not available on this server or when the lookup fails
+ */
+export async function findReferenceCards(referenceTemplateCode: string, name: string, limit: number = 5): Promise<ReferenceCard[]> {
+  if (!isTemplateAllowed(referenceTemplateCode)) {
+    return [];
+  }
+  try {
+    const result = await getApiClient().get<RESTPaginatedDataCardsInfo>(`dc/${referenceTemplateCode}/data`, {
+      params: { limit, filter: `$name$ = '${name.replace(/'/g, "''")}'` },
+    });
+    return (result.data || [])
+      .filter(dataCard => dataCard.name)
+      .map(dataCard => ({ dataCardId: dataCard.dataCardId, name: String(dataCard.name) }));
+  } catch (error) {
+    logger.error(`Failed to look up reference "${name}" in template ${referenceTemplateCode}`, error);
+    return [];
+  }
+}
+
+async function fetchReferenceCards(referenceTemplateCode: string, limit: number): Promise<ReferenceCard[]> {
+  logger.debug(`Fetching reference values from template ${referenceTemplateCode}`);
+
+  // Fetch data cards from the reference template
+  const result = await walkPages(
+    (params) => getApiClient().get<RESTPaginatedDataCardsInfo>(`dc/${referenceTemplateCode}/data`, { params }),
+    { params: { limit: Math.min(limit, 200), dataCards: true }, skip: 0 },
+    limit
+  );
+
+  // Extract names from the data cards
+  const cards: ReferenceCard[] = [];
+  
+  for (const dataCard of result.data) {
+    let name: string | undefined;
+    // The name is typically in the 'name' field of the dataCard
+    if (dataCard.name) {
+      name = dataCard.name;
+    } else if ('data' in dataCard) {
+      // If dataCards=true, check the data structure
+      const cardData = (dataCard as any).data;
+      // Try common name fields
+      name = cardData?.name?.values?.[0]?.value
+        ?? cardData?.primary_id?.values?.[0]?.value
+        ?? cardData?.title?.values?.[0]?.value;
+    }
+    if (name) {
+      cards.push({ dataCardId: dataCard.dataCardId, name: String(name) });
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * List all available values (names) for a reference template
+ * Returns an array of names from data cards in the reference template
+ * @param referenceTemplateCode - The template code to fetch values from
+ * @param limit - Maximum number of values to fetch (default: 200)
+ */
+export async function listReferenceValues(referenceTemplateCode: string, limit: number = 200): Promise<string[]> {
+  const cards = await listReferenceCards(referenceTemplateCode, limit);
+  return cards.map(card => card.name);
+}
+
+/**
+ * Drop cached reference values of one template, or of all templates
+ * @returns Number of cached lists removed
+ */
+export function invalidateReferenceCards(referenceTemplateCode?: string): number {
+  if (!referenceTemplateCode) {
+    const size = referenceCardsCache.size();
+    referenceCardsCache.clear();
+    return size;
+  }
+  return referenceCardsCache.deleteWhere(key => key.startsWith(`${referenceTemplateCode}:`));
+}
+
 /**
  * Find the most similar match from a list of options using Levenshtein distance
  * Returns the best match if similarity is above threshold, otherwise null
@@ -210,12 +231,9 @@ function levenshteinDistance(str1: string, str2: string): number {
 }
 
 /**
- * Check if an error is a 400 Bad Request error from Axios
+ * Check if an error is a 400 Bad Request from Efecte
  */
-export function isBadRequestError(error: unknown): boolean {
-  if (axios.isAxiosError(error)) {
-    return error.response?.status === 400;
-  }
-  return false;
+export function isBadRequestError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError && error.status === 400;
 }
 
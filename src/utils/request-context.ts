@@ -0,0 +1,68 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+/**
+ * Information about the MCP request a tool call is running for
+ */
+export interface RequestContext {
+  // MCP session ID, 'stdio' for the STDIO transport
+  sessionId: string;
+  // Name of the tool being called
+  tool: string;
+  // Efecte instance selected with the instance argument
+  instance?: string;
+  // Sends an MCP progress notification, set when the client asked for progress
+  sendProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
+
+/**
+ * Progress sender for a tool call, undefined unless the request carries a progress token
+ * @param extra - Request handler extra of the MCP SDK
+ */
+export function createProgressSender(extra: {
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}): RequestContext['sendProgress'] {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return (progress, total, message) => extra.sendNotification({
+    method: 'notifications/progress',
+    params: { progressToken, progress, total, message },
+  });
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context
+ * Everything awaited inside fn sees the context through getRequestContext().
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the current tool call, undefined outside of one
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Report progress of the current tool call to the client
+ * Does nothing when the client did not ask for progress; failures to notify are logged and ignored.
+ */
+export async function reportProgress(progress: number, total: number, message: string): Promise<void> {
+  const sendProgress = getRequestContext()?.sendProgress;
+  if (!sendProgress) {
+    return;
+  }
+  try {
+    await sendProgress(progress, total, message);
+  } catch (error) {
+    logger.debug('Failed to send progress notification', error);
+  }
+}
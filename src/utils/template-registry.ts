@@ -0,0 +1,129 @@
+import { getApiClient } from '../api/client.js';
+import { logger } from './logger.js';
+import { Cache } from './cache.js';
+import { efecteConfig } from './config.js';
+import { getTextFieldsFromTemplate } from './search.js';
+import { RESTAttribute, RESTStaticValueInfo, RESTTemplateInfo, RESTTemplateInfoElement } from '../types/efecte.js';
+
+/**
+ * Lookups derived from a template definition
+ */
+export interface TemplateIndex {
+  template: RESTTemplateInfo;
+  // Attribute definitions by attribute code
+  attributes: Map<string, RESTAttribute>;
+  // Referenced template codes by reference attribute code
+  referenceTargets: Map<string, string[]>;
+  // Codes of string attributes
+  textFields: string[];
+  // Static value options by attribute code, keyed by option code and by lowercased option value
+  staticValues: Map<string, { byCode: Map<string, RESTStaticValueInfo>; byValue: Map<string, RESTStaticValueInfo> }>;
+}
+
+// Indexes are tied to the template object they were built from, so a refreshed template gets a new index
+const indexes = new WeakMap<RESTTemplateInfo, TemplateIndex>();
+
+/**
+ * Get the derived lookups of a template definition (built once per definition)
+ */
+export function indexTemplate(template: RESTTemplateInfo): TemplateIndex {
+  const existing = indexes.get(template);
+  if (existing) {
+    return existing;
+  }
+
+  const index: TemplateIndex = {
+    template,
+    attributes: new Map(),
+    referenceTargets: new Map(),
+    textFields: getTextFieldsFromTemplate(template),
+    staticValues: new Map(),
+  };
+
+  for (const [code, attribute] of Object.entries(template.attributes || {})) {
+    index.attributes.set(code, attribute);
+    if (attribute.type === 'reference' && attribute.target && attribute.target.length > 0) {
+      index.referenceTargets.set(code, attribute.target);
+    }
+    if (attribute.type === 'static-value' && attribute.values) {
+      const byCode = new Map<string, RESTStaticValueInfo>();
+      const byValue = new Map<string, RESTStaticValueInfo>();
+      for (const option of attribute.values) {
+        byCode.set(option.code, option);
+        const key = String(option.value).toLowerCase();
+        if (!byValue.has(key)) {
+          byValue.set(key, option);
+        }
+      }
+      index.staticValues.set(code, { byCode, byValue });
+    }
+  }
+
+  indexes.set(template, index);
+  return index;
+}
+
+/**
+ * Find a static value option by code or (case-insensitively) by value
+ */
+export function findStaticValue(template: RESTTemplateInfo, attributeCode: string, text: string): RESTStaticValueInfo | undefined {
+  const options = indexTemplate(template).staticValues.get(attributeCode);
+  return options?.byCode.get(text) ?? options?.byValue.get(text.toLowerCase());
+}
+
+/**
+ * Single owner of template definitions
+ * All tools and resources read templates through here, so a refresh is seen everywhere.
+ * Concurrent requests for the same template share one API call.
+ */
+class TemplateRegistry {
+  // Expired definitions are served while one background request refreshes them
+  private templates = new Cache<RESTTemplateInfo>('templates', { staleWhileRevalidate: true });
+  private templateList = new Cache<RESTTemplateInfoElement[]>('template-list', { staleWhileRevalidate: true });
+
+  /**
+   * Get the list of all templates
+   */
+  async list(): Promise<RESTTemplateInfoElement[]> {
+    return this.templateList.getOrLoad('all', () => {
+      logger.info('Fetching template list from API');
+      return getApiClient().get<RESTTemplateInfoElement[]>('dc');
+    }, efecteConfig.caching.templatesTTL);
+  }
+
+  /**
+   * Get the definition of a template
+   */
+  async get(templateCode: string): Promise<RESTTemplateInfo> {
+    return this.templates.getOrLoad(templateCode, () => {
+      logger.info(`Fetching template details: ${templateCode}`);
+      return getApiClient().get<RESTTemplateInfo>(`dc/${templateCode}`);
+    }, efecteConfig.caching.templatesTTL);
+  }
+
+  /**
+   * Get the derived lookups of a template
+   */
+  async getIndex(templateCode: string): Promise<TemplateIndex> {
+    return indexTemplate(await this.get(templateCode));
+  }
+
+  /**
+   * Drop a cached template, or all templates and the template list
+   * @returns Number of cache entries removed
+   */
+  invalidate(templateCode?: string): number {
+    if (templateCode) {
+      const removed = this.templates.delete(templateCode) ? 1 : 0;
+      logger.info(`Invalidated template ${templateCode}`);
+      return removed;
+    }
+    const removed = this.templates.size() + this.templateList.size();
+    this.templates.clear();
+    this.templateList.clear();
+    logger.info('Invalidated all templates');
+    return removed;
+  }
+}
+
+export const templateRegistry = new TemplateRegistry();